@@ -2,50 +2,76 @@
 
 import { useEffect, useState } from "react";
 import { useSocket } from "@/hooks/useSocket";
-import { GameState } from "@/lib/game/types";
+import { BotLevel, GameView, RoomOptions } from "@/lib/game/types";
+import { Ack } from "@/lib/socket/events";
 import { GameBoard } from "@/components/game/GameBoard";
+import { SpectatorBoard } from "@/components/game/SpectatorBoard";
+import { AuthPanel } from "@/components/AuthPanel";
+
+const MODES: { id: string, label: string, options: RoomOptions }[] = [
+  { id: 'points', label: 'Points', options: { variant: 'points' } },
+  { id: 'pool101', label: 'Pool 101', options: { variant: 'pool', poolLimit: 101 } },
+  { id: 'pool201', label: 'Pool 201', options: { variant: 'pool', poolLimit: 201 } },
+  { id: 'deals2', label: 'Best of 2', options: { variant: 'deals', dealCount: 2 } },
+  { id: 'deals3', label: 'Best of 3', options: { variant: 'deals', dealCount: 3 } },
+  { id: 'deals6', label: 'Best of 6', options: { variant: 'deals', dealCount: 6 } },
+];
+
+const BOT_LEVELS: BotLevel[] = ['easy', 'medium', 'hard'];
+const ENTRY_FEES = [0, 50, 100, 250];
 
 export default function Home() {
-  const socket = useSocket();
-  const [name, setName] = useState("");
+  const { socket, playerId, name, loggedIn, setAuthToken } = useSocket();
   const [roomId, setRoomId] = useState("");
-  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [gameState, setGameState] = useState<GameView | null>(null);
   const [error, setError] = useState("");
   const [maxPlayers, setMaxPlayers] = useState(2);
-  const [queueStatus, setQueueStatus] = useState<{ size: number, current: number } | null>(null);
+  const [clientSeed, setClientSeed] = useState("");
+  const [mode, setMode] = useState(MODES[0].id);
+  const [entryFee, setEntryFee] = useState(ENTRY_FEES[0]);
+  const [queueStatus, setQueueStatus] = useState<{ size: number, position: number, current: number } | null>(null);
   const [isWakingUp, setIsWakingUp] = useState(false);
   const [backendActive, setBackendActive] = useState(false);
 
   useEffect(() => {
     if (!socket) return;
 
-    socket.on("player-joined", (state: GameState) => {
+    socket.on("player-joined", (state: GameView) => {
       console.log("Player joined, updating state", state);
       setGameState(state);
       setQueueStatus(null); // Clear queue status if we join a game
     });
 
-    socket.on("game-started", (state: GameState) => {
+    socket.on("game-started", (state: GameView) => {
       setGameState(state);
     });
 
-    socket.on("game-update", (state: GameState) => {
+    socket.on("game-update", (state: GameView) => {
       setGameState(state);
     });
 
-    socket.on("queue-joined", (status) => {
-      setQueueStatus(status);
+    socket.on("player-left", ({ gameState }: { gameState: GameView }) => {
+      setGameState(gameState);
+    });
+
+    socket.on("queue-update", ({ gameSize, position, size }) => {
+      setQueueStatus({ size: gameSize, position, current: size });
     });
 
-    socket.on("error", (msg) => {
-      setError(msg);
-      setTimeout(() => setError(""), 3000);
+    socket.on("queue-timeout", () => {
+      setQueueStatus(null);
+      showError("No game found in time, please try again");
     });
 
+    socket.on("error", (msg) => showError(msg));
+
     return () => {
       socket.off("player-joined");
       socket.off("game-started");
-      socket.off("queue-joined");
+      socket.off("game-update");
+      socket.off("player-left");
+      socket.off("queue-update");
+      socket.off("queue-timeout");
       socket.off("error");
     };
   }, [socket]);
@@ -69,37 +95,81 @@ export default function Home() {
     }
   };
 
+  const showError = (msg: string) => {
+    setError(msg);
+    setTimeout(() => setError(""), 3000);
+  };
+
+  const onAck = (response: Ack) => {
+    if (!response.ok) showError(response.message);
+  };
+
   const createRoom = () => {
-    if (!name) return alert("Enter name first");
-    socket?.emit("create-room", { playerName: name, maxPlayers }, (newRoomId: string) => {
-      setRoomId(newRoomId);
+    const { options } = MODES.find(m => m.id === mode)!;
+    socket?.emit("create-room", { maxPlayers, entryFee, ...options }, (response) => {
+      if (response.ok) setRoomId(response.roomId);
+      else showError(response.message);
     });
   };
 
   const joinQueue = (size: number) => {
-    if (!name) return alert("Enter name first");
-    setQueueStatus({ size, current: 1 }); // optimistic
-    socket?.emit("join-queue", { playerName: name, gameSize: size });
+    setQueueStatus({ size, position: 1, current: 1 }); // optimistic
+    socket?.emit("join-queue", { gameSize: size }, (response) => {
+      if (response.ok) return;
+      setQueueStatus(null);
+      showError(response.message);
+    });
+  };
+
+  const leaveQueue = () => {
+    setQueueStatus(null);
+    socket?.emit("leave-queue", {}, onAck);
   };
 
   const joinRoom = () => {
-    if (!name || !roomId) return alert("Enter name and room ID");
-    socket?.emit("join-room", { roomId, playerName: name });
+    if (!roomId) return alert("Enter a room ID");
+    socket?.emit("join-room", { roomId }, onAck);
+  };
+
+  const spectateRoom = () => {
+    if (!roomId) return alert("Enter a room ID");
+    socket?.emit("spectate-room", { roomId }, onAck);
   };
 
   const startGame = () => {
-    if (gameState) socket?.emit("start-game", gameState.roomId);
+    if (gameState) socket?.emit("start-game", { roomId: gameState.roomId }, onAck);
   }
 
-  if (gameState && gameState.status === 'playing') {
-    return <GameBoard socket={socket!} gameState={gameState} playerId={socket?.id || ""} />;
+  const addBot = (level: BotLevel) => {
+    if (gameState) socket?.emit("add-bot", { roomId: gameState.roomId, level }, onAck);
+  };
+
+  // Optional: mixes the player's own randomness into the next shuffle
+  const sendClientSeed = () => {
+    if (gameState && clientSeed) socket?.emit("client-seed", { roomId: gameState.roomId, clientSeed }, onAck);
+  };
+
+  const isSeated = !!gameState?.players.some(p => p.id === playerId);
+
+  if (gameState && !isSeated && gameState.status !== 'waiting') {
+    return <SpectatorBoard gameState={gameState} />;
+  }
+
+  if (gameState && gameState.status !== 'waiting') {
+    // Remount per deal so the results screen of the previous deal is cleared
+    return <GameBoard key={gameState.dealNumber} socket={socket!} gameState={gameState} playerId={playerId} />;
   }
 
   if (gameState) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 text-white gap-6">
         <h1 className="text-3xl font-bold text-yellow-500">Room: {gameState.roomId}</h1>
-        <span className="text-xs text-gray-400">Max Players: {gameState.maxPlayers}</span>
+        <span className="text-xs text-gray-400">
+          Max Players: {gameState.maxPlayers}
+          {gameState.variant === 'pool' && ` · Pool ${gameState.poolLimit}`}
+          {gameState.variant === 'deals' && ` · ${gameState.dealCount} Deals`}
+          {!!gameState.entryFee && ` · Entry ${gameState.entryFee} coins · Pot ${gameState.pot}`}
+        </span>
 
         <div className="bg-slate-800 p-6 rounded-lg w-96">
           <h3 className="text-xl mb-4 text-center">Players ({gameState.players.length}/{gameState.maxPlayers})</h3>
@@ -107,13 +177,48 @@ export default function Home() {
             {gameState.players.map(p => (
               <div key={p.id} className="flex justify-between items-center bg-slate-700 p-3 rounded">
                 <span>{p.name}</span>
-                {p.id === socket?.id && <span className="text-xs text-green-400 font-bold">(YOU)</span>}
+                {p.bot && <span className="text-[10px] font-bold text-purple-300">BOT</span>}
+                {p.clientSeed && <span className="text-[10px] text-gray-400">seeded</span>}
+                {p.id === playerId && <span className="text-xs text-green-400 font-bold">(YOU)</span>}
               </div>
             ))}
           </div>
+          {gameState.spectators.length > 0 && (
+            <p className="mt-4 text-xs text-center text-gray-400">👁 {gameState.spectators.length} watching</p>
+          )}
+          {isSeated && !gameState.entryFee && gameState.players.length < gameState.maxPlayers && (
+            <div className="mt-4 flex gap-2 justify-center">
+              {BOT_LEVELS.map(level => (
+                <button key={level} onClick={() => addBot(level)} className="text-xs bg-slate-700 px-3 py-1 rounded hover:bg-slate-600">
+                  + {level} bot
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
-        {gameState.players.length >= 2 ? (
+        {isSeated && (
+          <div className="w-96 text-xs text-gray-400">
+            <p className="mb-2 break-all">Shuffle commitment: <span className="font-mono">{gameState.seedCommitment}</span></p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder="Your seed (optional)"
+                className="flex-1 p-2 rounded bg-slate-800 border border-slate-700 text-white"
+                value={clientSeed}
+                maxLength={64}
+                onChange={(e) => setClientSeed(e.target.value)}
+              />
+              <button onClick={sendClientSeed} className="bg-slate-700 px-4 rounded font-bold hover:bg-slate-600">
+                Add
+              </button>
+            </div>
+          </div>
+        )}
+
+        {!isSeated ? (
+          <p className="animate-pulse text-gray-400">Watching - the game has not started yet</p>
+        ) : gameState.players.length >= 2 ? (
           <button onClick={startGame} className="px-8 py-3 bg-green-600 hover:bg-green-700 rounded-full font-bold text-xl shadow-lg transition-transform active:scale-95">
             START GAME
           </button>
@@ -129,8 +234,8 @@ export default function Home() {
       <div className="flex flex-col items-center justify-center min-h-screen bg-black text-white">
         <div className="animate-spin text-4xl mb-4">⌛</div>
         <h2 className="text-2xl font-bold">Searching for {queueStatus.size} Player Game...</h2>
-        <p className="text-gray-400">Current Queue: {queueStatus.current} waiting</p>
-        <button onClick={() => window.location.reload()} className="mt-8 px-4 py-2 border border-red-500 text-red-500 rounded hover:bg-red-500/10">
+        <p className="text-gray-400">Position {queueStatus.position} of {queueStatus.current} waiting</p>
+        <button onClick={leaveQueue} className="mt-8 px-4 py-2 border border-red-500 text-red-500 rounded hover:bg-red-500/10">
           Cancel
         </button>
       </div>
@@ -156,12 +261,7 @@ export default function Home() {
       {error && <div className="bg-red-500 p-3 rounded mb-4">{error}</div>}
 
       <div className="flex flex-col gap-6 w-full max-w-md px-4">
-        <input
-          className="p-4 rounded-lg bg-white/10 border border-white/20 text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-yellow-500 text-center text-lg"
-          placeholder="Enter Your Nickname"
-          value={name}
-          onChange={e => setName(e.target.value)}
-        />
+        <AuthPanel name={name} loggedIn={loggedIn} onToken={setAuthToken} onError={showError} />
 
         {/* Matchmaking Section */}
         <div className="bg-white/5 p-6 rounded-xl border border-white/10">
@@ -205,6 +305,35 @@ export default function Home() {
             </div>
           </div>
 
+          <div className="grid grid-cols-3 gap-1 mb-4">
+            {MODES.map(m => (
+              <button
+                key={m.id}
+                onClick={() => setMode(m.id)}
+                className={`py-2 rounded text-xs font-bold ${mode === m.id ? 'bg-green-500 text-black' : 'bg-gray-700 text-gray-400'}`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between mb-4 bg-black/20 p-2 rounded-lg">
+            <span className="text-sm text-gray-300 ml-2">Entry Fee:</span>
+            <div className="flex gap-1">
+              {ENTRY_FEES.map(fee => (
+                <button
+                  key={fee}
+                  onClick={() => setEntryFee(fee)}
+                  disabled={fee > 0 && !loggedIn}
+                  title={fee > 0 && !loggedIn ? 'Log in to play for coins' : undefined}
+                  className={`px-2 h-8 rounded text-xs font-bold disabled:opacity-40 ${entryFee === fee ? 'bg-yellow-500 text-black' : 'bg-gray-700 text-gray-400'}`}
+                >
+                  {fee === 0 ? 'Free' : fee}
+                </button>
+              ))}
+            </div>
+          </div>
+
           <button onClick={createRoom} className="w-full bg-green-600 text-white font-bold py-3 rounded-lg hover:bg-green-500 transition-colors mb-4">
             Create Private Room
           </button>
@@ -219,6 +348,9 @@ export default function Home() {
             <button onClick={joinRoom} className="bg-gray-700 px-6 py-3 rounded-lg font-bold hover:bg-gray-600 text-sm">
               Join
             </button>
+            <button onClick={spectateRoom} className="bg-gray-800 px-4 py-3 rounded-lg font-bold hover:bg-gray-700 text-sm">
+              Watch
+            </button>
           </div>
         </div>
       </div>
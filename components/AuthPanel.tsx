@@ -0,0 +1,83 @@
+import { useState } from "react";
+
+interface AuthPanelProps {
+    name: string;
+    loggedIn: boolean;
+    onToken: (token: string | null) => void;
+    onError: (message: string) => void;
+}
+
+// Shows who you are playing as, with a login / register form for guests
+export const AuthPanel = ({ name, loggedIn, onToken, onError }: AuthPanelProps) => {
+    const [username, setUsername] = useState("");
+    const [password, setPassword] = useState("");
+    const [busy, setBusy] = useState(false);
+
+    const submit = async (action: "login" | "register") => {
+        const socketUrl = process.env.NEXT_PUBLIC_SOCKET_URL || "http://localhost:3000";
+        setBusy(true);
+        try {
+            const res = await fetch(`${socketUrl}/api/auth/${action}`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ username, password })
+            });
+            const body = await res.json();
+            if (!res.ok) {
+                onError(body.message);
+                return;
+            }
+            setPassword("");
+            onToken(body.token);
+        } catch (e) {
+            console.error(e);
+            onError("Could not reach the server");
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    if (loggedIn) {
+        return (
+            <div className="flex justify-between items-center p-4 rounded-lg bg-white/10 border border-white/20">
+                <span>Playing as <span className="font-bold text-yellow-400">{name}</span></span>
+                <button onClick={() => onToken(null)} className="text-xs bg-gray-700 px-3 py-1 rounded hover:bg-gray-600">
+                    Log out
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-4 rounded-lg bg-white/10 border border-white/20">
+            <p className="text-sm text-center text-gray-300 mb-3">
+                Playing as <span className="font-bold">{name || "guest"}</span> - log in to keep your stats and coins
+            </p>
+            <div className="flex flex-col gap-2">
+                <input
+                    className="p-2 rounded bg-black/30 border border-white/10 text-sm"
+                    placeholder="Username"
+                    autoComplete="username"
+                    value={username}
+                    onChange={e => setUsername(e.target.value)}
+                />
+                <input
+                    type="password"
+                    className="p-2 rounded bg-black/30 border border-white/10 text-sm"
+                    placeholder="Password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={e => setPassword(e.target.value)}
+                />
+                <div className="flex gap-2">
+                    <button disabled={busy} onClick={() => submit("login")} className="flex-1 bg-yellow-500 text-black font-bold py-2 rounded hover:bg-yellow-400 disabled:opacity-50">
+                        Log in
+                    </button>
+                    <button disabled={busy} onClick={() => submit("register")} className="flex-1 bg-gray-700 font-bold py-2 rounded hover:bg-gray-600 disabled:opacity-50">
+                        Register
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -20,9 +20,10 @@ interface CardProps {
     card: CardType;
     onClick?: () => void;
     selected?: boolean;
+    isWild?: boolean; // Matches the cut joker's rank, plays as a joker
 }
 
-export const Card = ({ card, onClick, selected }: CardProps) => {
+export const Card = ({ card, onClick, selected, isWild }: CardProps) => {
     if (card.isJoker) {
         return (
             <div
@@ -41,10 +42,13 @@ export const Card = ({ card, onClick, selected }: CardProps) => {
         <div
             onClick={onClick}
             className={clsx(
-                "w-16 h-24 bg-white border-2 rounded-lg flex flex-col items-center justify-between p-1 cursor-pointer select-none transition-transform hover:-translate-y-2 shadow-sm",
-                selected ? "border-blue-500 -translate-y-4 shadow-lg ring-2 ring-blue-300" : "border-gray-200",
+                "relative w-16 h-24 bg-white border-2 rounded-lg flex flex-col items-center justify-between p-1 cursor-pointer select-none transition-transform hover:-translate-y-2 shadow-sm",
+                selected ? "border-blue-500 -translate-y-4 shadow-lg ring-2 ring-blue-300" : (isWild ? "border-purple-400" : "border-gray-200"),
                 SUIT_COLORS[card.suit]
             )}>
+            {isWild && (
+                <span className="absolute top-1 right-1 text-[8px] font-bold bg-purple-600 text-white px-1 rounded">WILD</span>
+            )}
             <div className="self-start text-sm font-bold">{card.rank}</div>
             <div className="text-2xl">{SUIT_ICONS[card.suit]}</div>
             <div className="self-end text-sm font-bold rotate-180">{card.rank}</div>
@@ -1,33 +1,43 @@
 import { useEffect, useState, useRef } from "react";
-import { Socket } from "socket.io-client";
-import { GameState, Card as CardType } from "@/lib/game/types";
+import { GameView, Card as CardType, DeclarationResult } from "@/lib/game/types";
+import { Ack } from "@/lib/socket/events";
+import { GameClientSocket } from "@/hooks/useSocket";
+import { RummyValidator } from "@/lib/game/validator";
+import { FIRST_DROP_PENALTY, MIDDLE_DROP_PENALTY } from "@/lib/game/scoring";
 import { Card } from "./Card";
 import { HowToPlayModal } from "./HowToPlayModal";
+import { TurnTimer } from "./TurnTimer";
+import { ResultsScreen, WinData, MatchResult } from "./ResultsScreen";
 import clsx from "clsx";
 import { motion, AnimatePresence, Reorder, useMotionValue } from "framer-motion";
 
 interface GameBoardProps {
-    socket: Socket;
-    gameState: GameState;
+    socket: GameClientSocket;
+    gameState: GameView;
     playerId: string;
 }
 
 export const GameBoard = ({ socket, gameState, playerId }: GameBoardProps) => {
     const me = gameState.players.find(p => p.id === playerId);
     const opponents = gameState.players.filter(p => p.id !== playerId);
+    const isWild = (card: CardType) => RummyValidator.isWildCard(card, gameState.wildCard);
 
     // Local Hand State for Fluid Dragging
     const [localHand, setLocalHand] = useState<CardType[]>([]);
     const [isDragging, setIsDragging] = useState(false);
 
     const [selectedCards, setSelectedCards] = useState<string[]>([]);
+    const [groups, setGroups] = useState<string[][]>([]);
+    const [suggestedPoints, setSuggestedPoints] = useState<number | null>(null);
     const [actionError, setActionError] = useState("");
-    const [winData, setWinData] = useState<{ winnerId: string, reason: string } | null>(null);
+    const [winData, setWinData] = useState<WinData | null>(null);
+    const [matchResult, setMatchResult] = useState<MatchResult | null>(null);
 
     // Animation State
     const [drawnCard, setDrawnCard] = useState<CardType | null>(null);
     const [showDrawAnim, setShowDrawAnim] = useState(false);
     const [isRevealing, setIsRevealing] = useState(false);
+    const [reshuffleCount, setReshuffleCount] = useState(gameState.reshuffleCount);
     // FIX: Initialize with current hand length to prevent animation on first render
     const prevHandLength = useRef<number>(me ? me.hand.length : 0);
 
@@ -91,17 +101,67 @@ export const GameBoard = ({ socket, gameState, playerId }: GameBoardProps) => {
         socket.on("game-ended", (data) => {
             setWinData(data);
         });
-        return () => { socket.off("game-ended"); };
-    }, [socket]);
+        socket.on("match-ended", (data) => {
+            setMatchResult(data);
+        });
+        socket.on("declaration-result", (result: DeclarationResult) => {
+            if (!result.isValid) {
+                setActionError(`Wrong declaration: ${result.error}`);
+                setTimeout(() => setActionError(""), 4000);
+            }
+        });
+        socket.on("declaration-invalid", ({ name, error }) => {
+            setActionError(`${name} made a wrong declaration (${error})`);
+            setTimeout(() => setActionError(""), 4000);
+        });
+        socket.on("deck-reshuffled", ({ reshuffleCount }) => {
+            setReshuffleCount(reshuffleCount);
+            setActionError("Deck reshuffled from the discard pile");
+            setTimeout(() => setActionError(""), 2000);
+        });
+        socket.on("turn-timeout", ({ playerId: timedOutId, name, dropped }) => {
+            const who = timedOutId === playerId ? "You" : name;
+            setActionError(dropped ? `${who} timed out too often and dropped` : `${who} ran out of time`);
+            setTimeout(() => setActionError(""), 3000);
+        });
+        socket.on("player-dropped", ({ playerId: droppedId, name, penalty }) => {
+            if (droppedId === playerId) return;
+            setActionError(`${name} dropped (${penalty} pts)`);
+            setTimeout(() => setActionError(""), 3000);
+        });
+        return () => {
+            socket.off("game-ended");
+            socket.off("match-ended");
+            socket.off("declaration-result");
+            socket.off("declaration-invalid");
+            socket.off("player-dropped");
+            socket.off("deck-reshuffled");
+            socket.off("turn-timeout");
+        };
+    }, [socket, playerId]);
+
+    // Shows why the server turned an action down
+    const onAck = (response: Ack) => {
+        if (response.ok) return;
+        setActionError(response.message);
+        setTimeout(() => setActionError(""), 3000);
+    };
 
+    // The seat has to be given up on the server first, or the reload puts us straight back in it
     const handleLeave = () => {
-        if (confirm("Are you sure you want to leave? You will lose.")) {
-            window.location.reload();
-        }
+        if (!confirm("Are you sure you want to leave? You will lose.")) return;
+        socket.emit("leave-room", { roomId: gameState.roomId }, (response) => {
+            if (response.ok) window.location.reload();
+            else onAck(response);
+        });
     };
 
-    const handleDebugWin = () => {
-        socket.emit("debug-win", gameState.roomId);
+    const handleDrop = () => {
+        if (!me?.isMyTurn || me.hand.length !== 13) return;
+        const penalty = me.hasDrawn ? MIDDLE_DROP_PENALTY : FIRST_DROP_PENALTY;
+        if (confirm(`Drop out of this deal? You will take ${penalty} points.`)) {
+            socket.emit("drop", { roomId: gameState.roomId }, onAck);
+        }
     };
 
     const toggleSelect = (cardId: string) => {
@@ -127,7 +187,10 @@ export const GameBoard = ({ socket, gameState, playerId }: GameBoardProps) => {
         }
         setShowDrawAnim(true);
 
-        socket.emit("draw-card", { roomId: gameState.roomId, fromDiscard });
+        socket.emit("draw-card", { roomId: gameState.roomId, fromDiscard }, (response) => {
+            if (!response.ok) setShowDrawAnim(false);
+            onAck(response);
+        });
     };
 
     const handleDiscard = (cardId?: string) => {
@@ -139,10 +202,73 @@ export const GameBoard = ({ socket, gameState, playerId }: GameBoardProps) => {
             setTimeout(() => setActionError(""), 2000);
             return;
         }
-        socket.emit("discard-card", { roomId: gameState.roomId, cardId: idToDiscard });
+        socket.emit("discard-card", { roomId: gameState.roomId, cardId: idToDiscard }, onAck);
         setSelectedCards([]);
     };
 
+    // --- Grouping & Declaration ---
+    // Drop ids of cards that have left the hand (discarded) and any groups left empty
+    const handIds = new Set(localHand.map(c => c.id));
+    const activeGroups = groups.map(g => g.filter(id => handIds.has(id))).filter(g => g.length > 0);
+    const groupIndexOf = (cardId: string) => activeGroups.findIndex(g => g.includes(cardId));
+
+    // Lays the hand out group by group, ungrouped cards last
+    const applyGroups = (nextGroups: string[][]) => {
+        setGroups(nextGroups);
+        setSelectedCards([]);
+
+        const grouped = new Set(nextGroups.flat());
+        const cardMap = new Map(localHand.map(c => [c.id, c]));
+        const newOrder = [
+            ...nextGroups.flat().map(id => cardMap.get(id)!),
+            ...localHand.filter(c => !grouped.has(c.id))
+        ];
+        setLocalHand(newOrder);
+        socket.emit("rearrange-hand", { roomId: gameState.roomId, newOrderIds: newOrder.map(c => c.id) }, onAck);
+    };
+
+    const handleGroup = () => {
+        if (selectedCards.length === 0) return;
+        setSuggestedPoints(null);
+        applyGroups([...activeGroups.map(g => g.filter(id => !selectedCards.includes(id))).filter(g => g.length > 0), selectedCards]);
+    };
+
+    const handleSmartSort = () => {
+        socket.emit("suggest-grouping", { roomId: gameState.roomId }, (response) => {
+            if (!response.ok) return onAck(response);
+            const { suggestion } = response;
+            // Ignore a stale answer if the hand changed while the server was thinking
+            if (!suggestion.groups.flat().every(c => handIds.has(c.id))) return;
+            setSuggestedPoints(suggestion.points);
+            applyGroups(suggestion.groups.map(g => g.map(c => c.id)));
+        });
+    };
+
+    // Ungrouped cards travel as one extra group so every card is accounted for
+    const buildDeclaredGroups = (excludeId?: string) => {
+        const declared = activeGroups.map(g => g.filter(id => id !== excludeId)).filter(g => g.length > 0);
+        const grouped = new Set(declared.flat());
+        const rest = localHand.filter(c => c.id !== excludeId && !grouped.has(c.id)).map(c => c.id);
+        if (rest.length > 0) declared.push(rest);
+        return declared;
+    };
+
+    const handleDeclare = () => {
+        if (!me?.isMyTurn || me.hand.length !== 14) return;
+        if (selectedCards.length !== 1) {
+            setActionError("Select 1 card to place as your finish card");
+            setTimeout(() => setActionError(""), 2000);
+            return;
+        }
+        const finishCardId = selectedCards[0];
+        socket.emit("declare", { roomId: gameState.roomId, cardId: finishCardId, groups: buildDeclaredGroups(finishCardId) }, onAck);
+        setSelectedCards([]);
+    };
+
+    const handleSubmitGroups = () => {
+        socket.emit("submit-groups", { roomId: gameState.roomId, groups: buildDeclaredGroups() }, onAck);
+    };
+
     // --- Reorder & Drop Logic ---
     const handleReorder = (newOrder: CardType[]) => {
         setLocalHand(newOrder);
@@ -174,7 +300,7 @@ export const GameBoard = ({ socket, gameState, playerId }: GameBoardProps) => {
             socket.emit("rearrange-hand", {
                 roomId: gameState.roomId,
                 newOrderIds: localHand.map(c => c.id)
-            });
+            }, onAck);
         }
     };
 
@@ -198,26 +324,24 @@ export const GameBoard = ({ socket, gameState, playerId }: GameBoardProps) => {
         );
     }
 
-    if (winData || gameState.status === 'ended') {
-        const iWon = winData?.winnerId === me.id || gameState.winner === me.id;
-        return (
-            <div className="flex items-center justify-center min-h-screen bg-black text-white">
-                <div className="text-center animate-bounce">
-                    <h1 className={clsx("text-6xl font-black mb-4", iWon ? "text-yellow-400" : "text-red-600")}>
-                        {iWon ? "YOU WON!" : "GAME OVER"}
-                    </h1>
-                    <p className="text-xl text-gray-400">{winData?.reason || "Game Ended"}</p>
-                    <button onClick={() => window.location.reload()} className="mt-8 bg-white text-black px-6 py-2 rounded-full font-bold">
-                        Back to Lobby
-                    </button>
-                </div>
-            </div>
-        );
+    if (winData || gameState.status === 'ended' || gameState.status === 'deal-ended') {
+        return <ResultsScreen socket={socket} gameState={gameState} me={me} winData={winData} matchResult={matchResult} />;
     }
 
-    const instruction = me.isMyTurn
+    const isDeclaring = gameState.status === 'declaring';
+    const turnPlayer = gameState.players.find(p => p.id === gameState.currentTurnPlayerId);
+    const declarer = gameState.players.find(p => p.id === gameState.declarerId);
+    const mustSubmit = isDeclaring && declarer?.id !== me.id && !me.hasDropped && !me.declaredGroups;
+
+    let instruction = me.isMyTurn
         ? (me.hand.length === 14 ? "Select 1 card to DISCARD" : "DRAW a card from Deck or Discard Pile")
-        : `Waiting for ${gameState.players.find(p => p.id === gameState.currentTurnPlayerId)?.name}...`;
+        : `Waiting for ${turnPlayer?.name}...`;
+    if (me.hasDropped) instruction = me.isEliminated ? "You have been eliminated - watching the deal" : "You are out of this deal";
+    if (isDeclaring) {
+        instruction = mustSubmit
+            ? `${declarer?.name} declared! Group your cards and SUBMIT`
+            : "Waiting for the other players to submit their groups...";
+    }
 
     return (
         <div className="flex flex-col h-screen bg-green-800 p-4 text-white overflow-hidden relative">
@@ -254,7 +378,7 @@ export const GameBoard = ({ socket, gameState, playerId }: GameBoardProps) => {
                             >
                                 <div className="transform scale-150">
                                     {drawnCard ? (
-                                        <Card card={drawnCard} />
+                                        <Card card={drawnCard} isWild={isWild(drawnCard)} />
                                     ) : (
                                         <div className="w-16 h-24 bg-blue-900 border-2 border-white rounded-lg shadow-xl flex items-center justify-center relative">
                                             <div className="absolute inset-1 border border-blue-700/50 rounded pointer-events-none"></div>
@@ -285,7 +409,12 @@ export const GameBoard = ({ socket, gameState, playerId }: GameBoardProps) => {
                             {opp.name[0]}
                         </div>
                         <div className="text-xs">{opp.name}</div>
-                        <div className="text-xs text-yellow-300">Cards: {opp.hand.length}</div>
+                        {opp.disconnected && <div className="text-[10px] text-orange-300 font-bold animate-pulse">DISCONNECTED</div>}
+                        {opp.hasDropped
+                            ? <div className="text-xs text-red-300 font-bold">OUT</div>
+                            : <div className="text-xs text-yellow-300">Cards: {opp.cardCount}</div>}
+                        {gameState.variant === 'pool' && <div className="text-[10px] text-gray-300">Total: {opp.totalScore}/{gameState.poolLimit}</div>}
+                        {gameState.variant === 'deals' && <div className="text-[10px] text-gray-300">Chips: {opp.chips}</div>}
                         {opp.isMyTurn && <div className="text-xs text-green-300 animate-pulse font-bold">PLAYING...</div>}
                     </div>
                 ))}
@@ -296,6 +425,11 @@ export const GameBoard = ({ socket, gameState, playerId }: GameBoardProps) => {
                 <span className={clsx("text-lg font-bold uppercase tracking-widest", me.isMyTurn ? "text-yellow-400" : "text-gray-400")}>
                     {instruction}
                 </span>
+                {gameState.status === 'playing' && gameState.turnDeadline && gameState.turnRemaining !== undefined && turnPlayer && (
+                    <span className="ml-3">
+                        <TurnTimer key={gameState.turnDeadline} remaining={gameState.turnRemaining} timeBank={turnPlayer.timeBank ?? 0} />
+                    </span>
+                )}
             </div>
 
             {/* Top Buttons */}
@@ -303,9 +437,11 @@ export const GameBoard = ({ socket, gameState, playerId }: GameBoardProps) => {
                 <button onClick={handleLeave} className="bg-red-900/50 hover:bg-red-900 text-xs px-3 py-1 rounded text-red-200 border border-red-700">
                     LEAVE GAME
                 </button>
-                <button onClick={handleDebugWin} className="bg-purple-900/50 hover:bg-purple-900 text-xs px-3 py-1 rounded text-purple-200 border border-purple-700">
-                    DEBUG WIN
-                </button>
+                {me.isMyTurn && me.hand.length === 13 && !me.hasDropped && (
+                    <button onClick={handleDrop} className="bg-orange-900/50 hover:bg-orange-900 text-xs px-3 py-1 rounded text-orange-200 border border-orange-700">
+                        DROP ({me.hasDrawn ? MIDDLE_DROP_PENALTY : FIRST_DROP_PENALTY})
+                    </button>
+                )}
             </div>
 
             {/* Center Table Area */}
@@ -317,10 +453,34 @@ export const GameBoard = ({ socket, gameState, playerId }: GameBoardProps) => {
                     className={clsx("flex flex-col items-center gap-2 group cursor-pointer", me.isMyTurn && me.hand.length === 13 && "ring-4 ring-yellow-400/50 rounded-xl")}
                     onClick={() => handleDraw(false)}
                 >
-                    <div className="w-24 h-36 bg-blue-900 border-2 border-white rounded-lg shadow-xl flex items-center justify-center relative">
-                        <div className="absolute inset-1 border border-blue-700/50 rounded pointer-events-none"></div>
-                        <span className="font-bold text-xl select-none">DECK</span>
+                    <div className="relative">
+                        {/* Cut joker tucked under the deck */}
+                        {gameState.wildCard && (
+                            <div className="absolute top-6 -left-12 -rotate-90 pointer-events-none">
+                                <Card card={gameState.wildCard} />
+                            </div>
+                        )}
+                        {/* Keyed on the reshuffle count so the spin replays after each reshuffle */}
+                        <motion.div
+                            key={reshuffleCount}
+                            initial={reshuffleCount > 0 ? { rotate: -360, scale: 0.6 } : false}
+                            animate={{ rotate: 0, scale: 1 }}
+                            transition={{ duration: 0.8 }}
+                            className="w-24 h-36 bg-blue-900 border-2 border-white rounded-lg shadow-xl flex items-center justify-center relative"
+                        >
+                            <div className="absolute inset-1 border border-blue-700/50 rounded pointer-events-none"></div>
+                            <span className="font-bold text-xl select-none">DECK</span>
+                        </motion.div>
                     </div>
+                    <span className="text-[10px] text-white/60">{gameState.deckCount} cards</span>
+                    {gameState.spectators.length > 0 && (
+                        <span className="text-[10px] text-white/60">👁 {gameState.spectators.length} watching</span>
+                    )}
+                    {gameState.wildCard && (
+                        <span className="text-[10px] bg-purple-600 text-white px-2 rounded font-bold">
+                            WILD: {RummyValidator.getWildRank(gameState.wildCard)}
+                        </span>
+                    )}
                     {me.isMyTurn && me.hand.length === 13 && <span className="text-xs bg-yellow-500 text-black px-2 rounded font-bold">CLICK TO DRAW</span>}
                 </motion.div>
 
@@ -344,6 +504,7 @@ export const GameBoard = ({ socket, gameState, playerId }: GameBoardProps) => {
                                 <div className="transform rotate-0">
                                     <Card
                                         card={gameState.discardPile[gameState.discardPile.length - 1]}
+                                        isWild={isWild(gameState.discardPile[gameState.discardPile.length - 1])}
                                     />
                                 </div>
                             ) : (
@@ -361,7 +522,11 @@ export const GameBoard = ({ socket, gameState, playerId }: GameBoardProps) => {
             {/* Bottom: My Hand */}
             <div className="mt-auto">
                 <div className="flex justify-center mb-6 gap-4">
-                    <button className="px-6 py-2 bg-blue-600/80 rounded-full hover:bg-blue-600 text-sm font-bold border border-blue-400 transition-colors">Group Selected</button>
+                    <button onClick={handleSmartSort} className="px-6 py-2 bg-purple-600/80 rounded-full hover:bg-purple-600 text-sm font-bold border border-purple-400 transition-colors flex items-center gap-2">
+                        Smart Sort
+                        {suggestedPoints !== null && <span className="text-[10px] bg-black/40 px-2 rounded-full">{suggestedPoints} pts</span>}
+                    </button>
+                    <button onClick={handleGroup} className="px-6 py-2 bg-blue-600/80 rounded-full hover:bg-blue-600 text-sm font-bold border border-blue-400 transition-colors">Group Selected</button>
                     <button
                         onClick={() => handleDiscard()}
                         disabled={!me.isMyTurn || selectedCards.length !== 1}
@@ -375,7 +540,24 @@ export const GameBoard = ({ socket, gameState, playerId }: GameBoardProps) => {
                         DISCARD
                         {selectedCards.length === 1 && <span className="w-2 h-2 bg-white rounded-full animate-ping"></span>}
                     </button>
-                    <button className="px-6 py-2 bg-yellow-600/80 rounded-full hover:bg-yellow-600 text-sm font-bold border border-yellow-400 transition-colors">Declare</button>
+                    {mustSubmit ? (
+                        <button onClick={handleSubmitGroups} className="px-6 py-2 bg-green-600 rounded-full hover:bg-green-500 text-sm font-bold border border-green-400 transition-colors animate-pulse">
+                            Submit Groups
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleDeclare}
+                            disabled={!me.isMyTurn || me.hand.length !== 14 || selectedCards.length !== 1}
+                            className={clsx(
+                                "px-6 py-2 rounded-full text-sm font-bold border transition-colors",
+                                me.isMyTurn && me.hand.length === 14 && selectedCards.length === 1
+                                    ? "bg-yellow-600/80 hover:bg-yellow-600 border-yellow-400"
+                                    : "bg-gray-700 text-gray-400 border-gray-600 cursor-not-allowed"
+                            )}
+                        >
+                            Declare
+                        </button>
+                    )}
                 </div>
 
                 {/* Hand Area with Reorder */}
@@ -422,8 +604,14 @@ export const GameBoard = ({ socket, gameState, playerId }: GameBoardProps) => {
                                             <Card
                                                 card={card}
                                                 selected={isSelected}
+                                                isWild={isWild(card)}
                                             // Remove onClick from Card if it consumes event, handled above
                                             />
+                                            {groupIndexOf(card.id) !== -1 && (
+                                                <div className="absolute -bottom-4 left-0 right-0 text-center text-[10px] font-bold text-blue-200">
+                                                    G{groupIndexOf(card.id) + 1}
+                                                </div>
+                                            )}
                                             {/* Invisible overlay to ensuring click captures for selection if not dragging */}
                                         </div>
                                     </Reorder.Item>
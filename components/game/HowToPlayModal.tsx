@@ -27,6 +27,8 @@ export const HowToPlayModal = () => {
                         <ul className="list-disc pl-5 space-y-1">
                             <li><strong>Draw:</strong> Click the <span className="text-blue-600 font-bold">DECK</span> or <span className="text-red-600 font-bold">DISCARD</span> pile.</li>
                             <li><strong>Discard:</strong> Select an unwanted card and click the <span className="text-red-500 font-bold">DISCARD</span> button.</li>
+                            <li><strong>Declare:</strong> Group your cards, select the card to place as your finish card and click <span className="text-yellow-600 font-bold">DECLARE</span>. A wrong declaration costs 80 points.</li>
+                            <li><strong>Drop:</strong> Leave the deal at the start of your turn for 20 points, or 40 once you have drawn a card.</li>
                         </ul>
                     </section>
 
@@ -35,8 +37,14 @@ export const HowToPlayModal = () => {
                         <ul className="list-disc pl-5 space-y-1">
                             <li><strong>Pure Sequence:</strong> 3+ consecutive cards of same suit (e.g., 5♥ 6♥ 7♥).</li>
                             <li><strong>Set:</strong> 3+ cards of same rank, different suits (e.g., 7♠ 7♦ 7♣).</li>
+                            <li><strong>Wild Joker:</strong> A card cut at the start of the deal. Every card of its rank acts as a joker (a printed joker makes Aces wild).</li>
                         </ul>
                     </section>
+
+                    <section>
+                        <h3 className="font-bold text-lg text-black">4. Pool Rummy</h3>
+                        <p>Points add up over several deals. Reach 101 (or 201) and you are eliminated; the last player standing wins. When only a few players remain they can agree to split the pot.</p>
+                    </section>
                 </div>
 
                 <div className="mt-8 flex justify-center">
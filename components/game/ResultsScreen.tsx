@@ -0,0 +1,161 @@
+import { useState } from "react";
+import clsx from "clsx";
+import { GameState, PlayerState, PlayerScore } from "@/lib/game/types";
+import { Ack, GameEndedPayload, MatchEndedPayload } from "@/lib/socket/events";
+import { GameClientSocket } from "@/hooks/useSocket";
+
+export type WinData = GameEndedPayload;
+export type MatchResult = MatchEndedPayload;
+
+const SCORE_LABELS: Record<PlayerScore['reason'], string> = {
+    winner: 'Winner',
+    deadwood: 'Deadwood',
+    dropped: 'Dropped',
+    wrong_show: 'Wrong Show'
+};
+
+const SUIT_SHORT: Record<string, string> = {
+    spades: '♠',
+    hearts: '♥',
+    diamonds: '♦',
+    clubs: '♣'
+};
+
+interface ResultsScreenProps {
+    socket: GameClientSocket;
+    gameState: GameState;
+    me: PlayerState;
+    winData: WinData | null;
+    matchResult: MatchResult | null;
+}
+
+export const ResultsScreen = ({ socket, gameState, me, winData, matchResult }: ResultsScreenProps) => {
+    const isMatch = gameState.variant !== 'points';
+    const isDeals = gameState.variant === 'deals';
+    const dealWinner = winData ? winData.winnerId : gameState.winner;
+    const iWon = isMatch && matchResult ? matchResult.winnerId === me.id : dealWinner === me.id;
+    const isDraw = !dealWinner;
+    const scores = winData?.scores || gameState.scores || [];
+    const fairness = winData?.fairness || gameState.fairness;
+    const splitOffer = gameState.splitOffer;
+    const canRespondToSplit = gameState.status === 'deal-ended' && splitOffer && splitOffer.shares[me.id] !== undefined && !splitOffer.accepted.includes(me.id);
+
+    let title = iWon ? "YOU WON!" : (isDraw ? "DRAW" : "GAME OVER");
+    if (isMatch && !matchResult) {
+        title = isDeals ? `DEAL ${gameState.dealNumber} OF ${gameState.dealCount}` : `DEAL ${gameState.dealNumber} OVER`;
+    }
+
+    const [actionError, setActionError] = useState("");
+    const onAck = (response: Ack) => {
+        if (response.ok) return;
+        setActionError(response.message);
+        setTimeout(() => setActionError(""), 3000);
+    };
+
+    const respondToSplit = (accept: boolean) => {
+        socket.emit("split-respond", { roomId: gameState.roomId, accept }, onAck);
+    };
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-black text-white">
+            <div className="text-center">
+                <h1 className={clsx("text-6xl font-black mb-4 animate-bounce", iWon ? "text-yellow-400" : "text-red-600")}>
+                    {title}
+                </h1>
+                <p className="text-xl text-gray-400">{matchResult?.reason || winData?.reason || "Game Ended"}</p>
+
+                {scores.length > 0 && (
+                    <table className="mt-6 mx-auto text-sm bg-slate-900 rounded-lg overflow-hidden">
+                        <thead className="bg-slate-800 text-gray-300 uppercase text-xs">
+                            <tr>
+                                <th className="px-4 py-2 text-left">Player</th>
+                                <th className="px-4 py-2 text-left">Result</th>
+                                <th className="px-4 py-2 text-left">Hand</th>
+                                <th className="px-4 py-2 text-right">Points</th>
+                                {isMatch && <th className="px-4 py-2 text-right">{isDeals ? 'Chips' : 'Total'}</th>}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {scores.map(score => {
+                                const player = gameState.players.find(p => p.id === score.playerId);
+                                return (
+                                    <tr key={score.playerId} className={clsx("border-t border-slate-800", score.playerId === me.id && "bg-yellow-500/10")}>
+                                        <td className="px-4 py-2 text-left font-bold">{score.name}</td>
+                                        <td className="px-4 py-2 text-left text-gray-400">{SCORE_LABELS[score.reason]}</td>
+                                        <td className="px-4 py-2 text-left">
+                                            <div className="flex gap-2">
+                                                {score.groups.map((group, i) => (
+                                                    <span key={i} className={clsx("px-1 rounded text-xs", group.type === 'invalid' ? "bg-red-900/60" : "bg-green-900/60")}>
+                                                        {group.cards.map(c => c.isJoker ? 'JK' : `${c.rank}${SUIT_SHORT[c.suit]}`).join(' ')}
+                                                    </span>
+                                                ))}
+                                            </div>
+                                        </td>
+                                        <td className="px-4 py-2 text-right font-mono">{score.points}</td>
+                                        {isMatch && (
+                                            <td className={clsx("px-4 py-2 text-right font-mono", player?.isEliminated && "text-red-500 line-through")}>
+                                                {(isDeals ? player?.chips : player?.totalScore) ?? '-'}
+                                            </td>
+                                        )}
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                )}
+
+                {matchResult && isDeals && (
+                    <div className="mt-4 text-sm text-gray-300">
+                        <p className="font-bold text-yellow-400 mb-1">Final Chips</p>
+                        {matchResult.standings.map((s, i) => (
+                            <div key={s.playerId}>{i + 1}. {s.name}: {s.chips}</div>
+                        ))}
+                    </div>
+                )}
+
+                {matchResult?.standings.some(s => s.share !== undefined) && (
+                    <div className="mt-4 text-sm text-gray-300">
+                        {matchResult.standings.filter(s => s.share !== undefined).map(s => (
+                            <div key={s.playerId}>{s.name}: {Math.round(s.share! * 100)}% of the pot</div>
+                        ))}
+                    </div>
+                )}
+
+                {canRespondToSplit && (
+                    <div className="mt-6 bg-slate-900 p-4 rounded-lg">
+                        <p className="mb-3 font-bold text-yellow-400">Split the pot and end the match?</p>
+                        <p className="mb-3 text-sm text-gray-400">Your share: {Math.round(splitOffer.shares[me.id] * 100)}%</p>
+                        <div className="flex gap-3 justify-center">
+                            <button onClick={() => respondToSplit(true)} className="bg-green-600 px-4 py-2 rounded-full font-bold">Accept</button>
+                            <button onClick={() => respondToSplit(false)} className="bg-red-700 px-4 py-2 rounded-full font-bold">Keep Playing</button>
+                        </div>
+                    </div>
+                )}
+
+                {fairness?.serverSeed && (
+                    <div className="mt-4 max-w-xl mx-auto text-left text-[10px] text-gray-500 font-mono break-all">
+                        <p>Seed commitment: {fairness.commitment}</p>
+                        <p>Server seed: {fairness.serverSeed}</p>
+                        {fairness.clientSeed && <p>Player seeds: {fairness.clientSeed}</p>}
+                        <p>Match {gameState.matchId}, deal {fairness.dealNumber}</p>
+                    </div>
+                )}
+
+                {actionError && <p className="mt-4 text-sm text-red-400">{actionError}</p>}
+
+                {gameState.status === 'deal-ended' && !matchResult ? (
+                    <div className="mt-8 flex flex-col items-center gap-2">
+                        <p className="text-gray-400 animate-pulse">Next deal starting soon...</p>
+                        <button onClick={() => socket.emit("start-game", { roomId: gameState.roomId }, onAck)} className="bg-white text-black px-6 py-2 rounded-full font-bold">
+                            Deal Now
+                        </button>
+                    </div>
+                ) : (
+                    <button onClick={() => window.location.reload()} className="mt-8 bg-white text-black px-6 py-2 rounded-full font-bold">
+                        Back to Lobby
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,98 @@
+import clsx from "clsx";
+import { GameView, Card as CardType } from "@/lib/game/types";
+import { RummyValidator } from "@/lib/game/validator";
+import { Card } from "./Card";
+import { TurnTimer } from "./TurnTimer";
+
+interface SpectatorBoardProps {
+    gameState: GameView;
+}
+
+// Read-only table for spectators: seats, card counts and the piles, with every
+// hand turned face up once the deal is over
+export const SpectatorBoard = ({ gameState }: SpectatorBoardProps) => {
+    const isWild = (card: CardType) => RummyValidator.isWildCard(card, gameState.wildCard);
+    const isOver = gameState.status === 'deal-ended' || gameState.status === 'ended';
+    const turnPlayer = gameState.players.find(p => p.id === gameState.currentTurnPlayerId);
+    const topDiscard = gameState.discardPile[gameState.discardPile.length - 1];
+    const winner = gameState.players.find(p => p.id === (gameState.matchWinner || gameState.winner));
+
+    return (
+        <div className="flex flex-col min-h-screen bg-green-900 p-4 text-white gap-6">
+            <div className="flex justify-between items-center">
+                <span className="bg-black/40 px-3 py-1 rounded text-xs font-bold tracking-widest">SPECTATING · ROOM {gameState.roomId}</span>
+                <span className="bg-black/40 px-3 py-1 rounded text-xs">👁 {gameState.spectators.length} watching</span>
+            </div>
+
+            <div className="bg-black/30 p-2 text-center rounded">
+                {isOver ? (
+                    <span className="text-lg font-bold text-yellow-400">
+                        {gameState.status === 'ended' ? 'MATCH OVER' : `DEAL ${gameState.dealNumber} OVER`}
+                        {winner && ` · ${winner.name} wins`}
+                    </span>
+                ) : gameState.status === 'declaring' ? (
+                    <span className="text-lg font-bold text-yellow-400">
+                        {gameState.players.find(p => p.id === gameState.declarerId)?.name} declared - waiting for the show
+                    </span>
+                ) : (
+                    <span className="text-lg font-bold text-gray-200">
+                        {turnPlayer ? `${turnPlayer.name} to play` : 'Waiting...'}
+                        {gameState.turnDeadline && gameState.turnRemaining !== undefined && turnPlayer && (
+                            <span className="ml-3">
+                                <TurnTimer key={gameState.turnDeadline} remaining={gameState.turnRemaining} timeBank={turnPlayer.timeBank ?? 0} />
+                            </span>
+                        )}
+                    </span>
+                )}
+            </div>
+
+            <div className="flex justify-center items-center gap-12">
+                <div className="flex flex-col items-center gap-2">
+                    <div className="w-24 h-36 bg-blue-900 border-2 border-white rounded-lg shadow-xl flex items-center justify-center">
+                        <span className="font-bold text-xl select-none">DECK</span>
+                    </div>
+                    <span className="text-[10px] text-white/60">{gameState.deckCount} cards</span>
+                    {gameState.wildCard && (
+                        <span className="text-[10px] bg-purple-600 text-white px-2 rounded font-bold">
+                            WILD: {RummyValidator.getWildRank(gameState.wildCard)}
+                        </span>
+                    )}
+                </div>
+                <div className="flex flex-col items-center gap-2">
+                    <div className="w-24 h-36 border-2 border-dashed border-white/30 rounded-lg flex items-center justify-center bg-white/5">
+                        {topDiscard ? <Card card={topDiscard} isWild={isWild(topDiscard)} /> : <span className="text-white/30 text-xs">Empty</span>}
+                    </div>
+                    <span className="text-xs font-semibold tracking-widest text-white/70">DISCARD PILE</span>
+                </div>
+            </div>
+
+            <div className="flex flex-col gap-3">
+                {gameState.players.map(player => {
+                    const score = gameState.scores?.find(s => s.playerId === player.id);
+                    return (
+                        <div key={player.id} className={clsx("p-3 rounded-lg", player.isMyTurn ? "bg-yellow-500/20 border border-yellow-400" : "bg-black/30")}>
+                            <div className="flex items-center gap-3 text-sm">
+                                <span className="font-bold">{player.name}</span>
+                                {player.disconnected && <span className="text-[10px] text-orange-300 font-bold">DISCONNECTED</span>}
+                                {player.hasDropped && <span className="text-[10px] text-red-300 font-bold">OUT</span>}
+                                <span className="text-xs text-yellow-300">Cards: {player.cardCount}</span>
+                                {gameState.variant === 'pool' && <span className="text-xs text-gray-300">Total: {player.totalScore}/{gameState.poolLimit}</span>}
+                                {gameState.variant === 'deals' && <span className="text-xs text-gray-300">Chips: {player.chips}</span>}
+                                {score && <span className="ml-auto font-mono text-xs">{score.points} pts</span>}
+                            </div>
+                            {isOver && player.hand.length > 0 && (
+                                <div className="flex -space-x-8 mt-2 scale-75 origin-left">
+                                    {player.hand.map(card => <Card key={card.id} card={card} isWild={isWild(card)} />)}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <button onClick={() => window.location.reload()} className="self-center bg-white text-black px-6 py-2 rounded-full font-bold">
+                Back to Lobby
+            </button>
+        </div>
+    );
+};
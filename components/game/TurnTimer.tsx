@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import clsx from "clsx";
+
+interface TurnTimerProps {
+    remaining: number; // Ms left when the server sent the view, time bank included
+    timeBank: number; // Ms of the remaining time that come out of the time bank
+}
+
+// Counts down the current turn; the last stretch is the player's time bank. The
+// deadline is set on this clock when the timer mounts, so a skewed clock does not
+// shift it; remount it (by key) for every turn.
+export const TurnTimer = ({ remaining: initial, timeBank }: TurnTimerProps) => {
+    const [deadline] = useState(() => Date.now() + initial);
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 250);
+        return () => clearInterval(interval);
+    }, []);
+
+    const remaining = Math.max(0, deadline - now);
+    const inBank = timeBank > 0 && remaining <= timeBank;
+    const seconds = Math.ceil((inBank ? remaining : remaining - timeBank) / 1000);
+
+    return (
+        <span className={clsx("font-mono font-bold px-2 rounded", inBank ? "bg-red-600 text-white animate-pulse" : seconds <= 10 ? "text-red-400" : "text-white")}>
+            {inBank ? `BANK ${seconds}s` : `${seconds}s`}
+        </span>
+    );
+};
@@ -1,15 +1,26 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { io, Socket } from "socket.io-client";
+import { ClientToServerEvents, ServerToClientEvents } from "@/lib/socket/events";
+
+export type GameClientSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+const SESSION_KEY = "rummySession";
+const AUTH_KEY = "rummyAuth";
 
 export const useSocket = () => {
-    const [socket, setSocket] = useState<Socket | null>(null);
+    const [socket, setSocket] = useState<GameClientSocket | null>(null);
+    const [playerId, setPlayerId] = useState("");
+    const [name, setName] = useState("");
+    const [loggedIn, setLoggedIn] = useState(false);
     const [isConnected, setIsConnected] = useState(false);
 
     useEffect(() => {
         const socketUrl = process.env.NEXT_PUBLIC_SOCKET_URL || "http://localhost:3000";
 
-        const socketInstance = io(socketUrl, {
+        const socketInstance: GameClientSocket = io(socketUrl, {
             transports: ["websocket", "polling"],
+            // Read on every (re)connect so a freshly issued token is picked up
+            auth: (cb) => cb({ sessionToken: localStorage.getItem(SESSION_KEY), token: localStorage.getItem(AUTH_KEY) }),
         });
 
         socketInstance.on("connect", () => {
@@ -17,6 +28,21 @@ export const useSocket = () => {
             setIsConnected(true);
         });
 
+        socketInstance.on("session", ({ sessionToken, playerId, name, loggedIn }) => {
+            if (sessionToken) localStorage.setItem(SESSION_KEY, sessionToken);
+            setPlayerId(playerId);
+            setName(name);
+            setLoggedIn(loggedIn);
+        });
+
+        // An expired or foreign login token: carry on as a new guest
+        socketInstance.on("connect_error", (err) => {
+            if (err.message !== "Unauthorized" || !localStorage.getItem(AUTH_KEY)) return;
+            localStorage.removeItem(AUTH_KEY);
+            localStorage.removeItem(SESSION_KEY);
+            socketInstance.connect();
+        });
+
         socketInstance.on("disconnect", () => {
             console.log("Disconnected from server");
             setIsConnected(false);
@@ -29,5 +55,17 @@ export const useSocket = () => {
         };
     }, []);
 
-    return socket;
+    // Logging in or out changes who this connection is, so it starts over. Logging out
+    // drops the guest session too, so the next player on this browser starts afresh.
+    const setAuthToken = useCallback((token: string | null) => {
+        if (token) {
+            localStorage.setItem(AUTH_KEY, token);
+        } else {
+            localStorage.removeItem(AUTH_KEY);
+            localStorage.removeItem(SESSION_KEY);
+        }
+        socket?.disconnect().connect();
+    }, [socket]);
+
+    return { socket, playerId, name, loggedIn, setAuthToken };
 };
@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import { DEFAULT_RATING } from './game/rating';
 
 // Connection function
 export const connectDB = async () => {
@@ -23,20 +24,67 @@ export const connectDB = async () => {
 
 // Schemas
 const userSchema = new mongoose.Schema({
-    username: { type: String, required: true, unique: true },
+    username: { type: String, unique: true, sparse: true }, // Unset for guests
+    playerId: { type: String, unique: true, sparse: true }, // Id the player is seated under in games
+    name: String, // Last display name used at a table
+    passwordHash: String, // See socket/auth.ts; unset for guests
     coins: { type: Number, default: 1000 },
     matchesWon: { type: Number, default: 0 },
     matchesPlayed: { type: Number, default: 0 },
+    botMatchesWon: { type: Number, default: 0 }, // Matches with a bot at the table, kept off the leaderboards
+    botMatchesPlayed: { type: Number, default: 0 },
+    rating: { type: Number, default: DEFAULT_RATING }, // Elo, see lib/game/rating.ts
     createdAt: { type: Date, default: Date.now }
 });
 
+const matchPlayerSchema = new mongoose.Schema({
+    playerId: String,
+    name: String,
+    bot: String, // Difficulty, for computer players
+    totalScore: Number,
+    chips: Number,
+    isEliminated: Boolean,
+    share: Number,
+    place: Number,
+    deadwood: Number,
+    deadwoodDeals: Number,
+    rating: Number, // Before the match
+    ratingChange: Number
+}, { _id: false });
+
 const matchSchema = new mongoose.Schema({
+    matchId: { type: String, unique: true, sparse: true }, // Key of the archived action log
     roomId: String,
-    winnerId: String, // Maps to Socket ID or Username
-    players: [String],
+    variant: String,
+    winnerId: String, // Player id
+    reason: String,
+    players: [matchPlayerSchema],
+    deals: Number,
+    startedAt: Date,
+    endedAt: Date,
+    durationMs: Number,
+    entryFee: Number,
+    pot: Number, // Coins paid out, rake included
     timestamp: { type: Date, default: Date.now }
 });
 
+// Append-only record of every coin movement. A transfer is a pair of rows that sum
+// to zero, so the balance of any account is the sum of its rows.
+const ledgerSchema = new mongoose.Schema({
+    transferId: { type: String, required: true },
+    account: { type: String, required: true }, // player:<id>, pot:<matchId>, house or mint
+    amount: { type: Number, required: true }, // Signed: negative leaves the account
+    kind: { type: String, required: true }, // grant, stake, refund, rake or payout
+    matchId: String,
+    createdAt: { type: Date, default: Date.now }
+});
+ledgerSchema.index({ transferId: 1, account: 1 }, { unique: true });
+ledgerSchema.index({ account: 1 });
+ledgerSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete'], function () {
+    throw new Error('The ledger is append-only');
+});
+
 // Models configuration (prevent overwrite during hot reload)
 export const User = mongoose.models.User || mongoose.model('User', userSchema);
 export const Match = mongoose.models.Match || mongoose.model('Match', matchSchema);
+export const Ledger = mongoose.models.Ledger || mongoose.model('Ledger', ledgerSchema);
@@ -0,0 +1,136 @@
+import { BotLevel, Card } from './types';
+import { RummySolver } from './solver';
+import { RummyScorer } from './scoring';
+import { RummyValidator } from './validator';
+
+// Extra cost of throwing a card an opponent is known to be collecting around
+const DANGER_PENALTY = 6;
+const DEADWOOD_CACHE_SIZE = 5000;
+
+// Deadwood of hands already searched. The draw and discard decisions look at
+// overlapping hands, and the second deck repeats every face.
+const deadwoodCache = new Map<string, number>();
+
+// What a bot knows when it decides: its own hand and what is face up on the table
+export interface BotView {
+    level: BotLevel;
+    hand: Card[];
+    topDiscard?: Card;
+    wildCard?: Card;
+    opponentPickups: Card[]; // Cards opponents took from the discard pile this deal (hard only)
+}
+
+export interface BotDeclaration {
+    finishCardId: string;
+    groups: string[][];
+}
+
+// Decision making for computer players. Easy bots look at face value only, medium
+// bots search for the grouping that leaves the least deadwood, and hard bots also
+// avoid feeding the melds opponents are visibly collecting.
+export class RummyBot {
+    // True to take the open discard, false to draw from the deck
+    static chooseDraw(view: BotView): boolean {
+        const { hand, topDiscard, wildCard } = view;
+        if (!topDiscard) return false;
+        if (RummyValidator.isJokerCard(topDiscard, wildCard)) return true;
+        if (view.level === 'easy') return false;
+
+        // Worth it only if the hand is better off after taking it and throwing something else
+        const current = this.deadwood(hand, wildCard);
+        const withDiscard = [...hand, topDiscard];
+        const best = Math.min(...hand.map(card => this.deadwood(withDiscard.filter(c => c.id !== card.id), wildCard)));
+        return best < current;
+    }
+
+    // Card to throw from a hand of 14
+    static chooseDiscard(view: BotView): string {
+        const { hand, wildCard } = view;
+        const candidates = hand.filter(c => !RummyValidator.isJokerCard(c, wildCard));
+        if (candidates.length === 0) return hand[hand.length - 1].id;
+
+        if (view.level === 'easy') {
+            const { deadwood } = RummySolver.suggestGrouping(hand, wildCard);
+            const pool = deadwood.filter(c => !RummyValidator.isJokerCard(c, wildCard));
+            return this.highest(pool.length > 0 ? pool : candidates, wildCard).id;
+        }
+
+        let best = candidates[0];
+        let bestCost = Infinity;
+        for (const card of candidates) {
+            let cost = this.deadwood(hand.filter(c => c.id !== card.id), wildCard);
+            if (view.level === 'hard') cost += this.danger(card, view.opponentPickups);
+            // Between equal hands, get rid of the heavier card
+            const better = cost < bestCost || (cost === bestCost && RummyScorer.getCardPoints(card, wildCard) > RummyScorer.getCardPoints(best, wildCard));
+            if (better) {
+                best = card;
+                bestCost = cost;
+            }
+        }
+        return best.id;
+    }
+
+    // A finish card and grouping that make a valid show from a hand of 14, if there is one
+    static findDeclaration(hand: Card[], wildCard?: Card): BotDeclaration | null {
+        // A show needs every card but one melded, so far-off hands are not searched
+        if (RummySolver.suggestGrouping(hand, wildCard).deadwood.length > 3) return null;
+
+        const tried = new Set<string>();
+        for (const finish of hand) {
+            // Throwing either copy of a face leaves the same hand
+            const face = this.face(finish);
+            if (tried.has(face)) continue;
+            tried.add(face);
+
+            const rest = hand.filter(c => c.id !== finish.id);
+            const suggestion = RummySolver.suggestGrouping(rest, wildCard);
+            if (suggestion.deadwood.length > 0) continue;
+            if (!RummyValidator.validateHand(rest, suggestion.groups, wildCard).isValid) continue;
+            return { finishCardId: finish.id, groups: suggestion.groups.map(g => g.map(c => c.id)) };
+        }
+        return null;
+    }
+
+    // Best grouping to submit once someone else has shown, deadwood as its own group
+    static showGroups(hand: Card[], wildCard?: Card): string[][] {
+        const suggestion = RummySolver.suggestGrouping(hand, wildCard);
+        return [...suggestion.groups, suggestion.deadwood]
+            .filter(g => g.length > 0)
+            .map(g => g.map(c => c.id));
+    }
+
+    // Raw deadwood points of the best grouping, without the per-deal cap
+    private static deadwood(hand: Card[], wildCard?: Card): number {
+        // The grouping only depends on the faces, not on which deck a card came from
+        const faces = hand.map(c => this.face(c)).sort();
+        const key = `${RummyValidator.getWildRank(wildCard) ?? ''}|${faces.join(',')}`;
+        const cached = deadwoodCache.get(key);
+        if (cached !== undefined) return cached;
+
+        const { deadwood } = RummySolver.suggestGrouping(hand, wildCard);
+        const points = deadwood.reduce((sum, c) => sum + RummyScorer.getCardPoints(c, wildCard), 0);
+        if (deadwoodCache.size >= DEADWOOD_CACHE_SIZE) deadwoodCache.delete(deadwoodCache.keys().next().value!);
+        deadwoodCache.set(key, points);
+        return points;
+    }
+
+    private static face(card: Card): string {
+        return card.isJoker ? 'JK' : `${card.rank}${card.suit[0]}`;
+    }
+
+    private static highest(cards: Card[], wildCard?: Card): Card {
+        return cards.reduce((a, b) => RummyScorer.getCardPoints(b, wildCard) > RummyScorer.getCardPoints(a, wildCard) ? b : a);
+    }
+
+    // Opponents who picked up a card of the same rank may be building a set, and
+    // nearby cards of the same suit may complete their sequence
+    private static danger(card: Card, pickups: Card[]): number {
+        const value = RummyValidator.getCardValue(card.rank);
+        return pickups.reduce((risk, picked) => {
+            if (picked.isJoker) return risk;
+            const sameRank = picked.rank === card.rank;
+            const nearInSuit = picked.suit === card.suit && Math.abs(RummyValidator.getCardValue(picked.rank) - value) <= 2;
+            return risk + (sameRank || nearInSuit ? DANGER_PENALTY : 0);
+        }, 0);
+    }
+}
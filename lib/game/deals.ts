@@ -0,0 +1,33 @@
+import { PlayerState, PlayerScore } from './types';
+import { MAX_POINTS } from './scoring';
+
+export const DEAL_COUNTS = [2, 3, 6];
+
+export class DealsRummy {
+    // Everyone starts with enough chips to lose every deal at the maximum
+    static startingChips(dealCount: number): number {
+        return dealCount * MAX_POINTS;
+    }
+
+    // The deal winner collects each loser's points as chips; a drawn deal moves nothing
+    static applyDeal(players: PlayerState[], scores: PlayerScore[], winnerId?: string) {
+        const winner = players.find(p => p.id === winnerId);
+        if (!winner) return;
+
+        for (const score of scores) {
+            if (score.playerId === winnerId) continue;
+            const loser = players.find(p => p.id === score.playerId);
+            if (!loser) continue;
+            loser.chips = (loser.chips ?? 0) - score.points;
+            winner.chips = (winner.chips ?? 0) + score.points;
+        }
+    }
+
+    static isMatchOver(dealNumber: number, dealCount: number): boolean {
+        return dealNumber >= dealCount;
+    }
+
+    static matchWinner(players: PlayerState[]): PlayerState | undefined {
+        return [...players].sort((a, b) => (b.chips ?? 0) - (a.chips ?? 0))[0];
+    }
+}
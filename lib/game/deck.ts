@@ -1,8 +1,12 @@
 import { Card, Rank, Suit } from './types';
 import { v4 as uuidv4 } from 'uuid';
+import { randomInt } from 'crypto';
 
-const SUITS: Suit[] = ['spades', 'hearts', 'diamonds', 'clubs'];
-const RANKS: Rank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
+export const SUITS: Suit[] = ['spades', 'hearts', 'diamonds', 'clubs'];
+export const RANKS: Rank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
+
+// Uniform integer in [0, max). Defaults to the OS CSPRNG; FairShuffle provides seeded ones.
+export type RandomSource = (max: number) => number;
 
 export class Deck {
     public cards: Card[] = [];
@@ -37,13 +41,20 @@ export class Deck {
         }
     }
 
-    shuffle() {
+    // Fisher-Yates; the same random source always gives the same order
+    shuffle(random: RandomSource = randomInt) {
         for (let i = this.cards.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
+            const j = random(i + 1);
             [this.cards[i], this.cards[j]] = [this.cards[j], this.cards[i]];
         }
     }
 
+    // Turns used cards into a fresh stock beneath whatever is left
+    restock(cards: Card[], random: RandomSource = randomInt) {
+        this.cards.push(...cards);
+        this.shuffle(random);
+    }
+
     deal(numCards: number): Card[] {
         return this.cards.splice(0, numCards);
     }
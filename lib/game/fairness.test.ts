@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { DealFairness } from './types';
+import { FairShuffle } from './fairness';
+
+const deal = () => {
+    const serverSeed = FairShuffle.newServerSeed();
+    const fairness: DealFairness = {
+        dealNumber: 1,
+        commitment: FairShuffle.commit(serverSeed),
+        clientSeed: 'alice-seed:bob-seed',
+        serverSeed
+    };
+    return { fairness, deck: FairShuffle.dealDeck(serverSeed, fairness.clientSeed).cards };
+};
+
+describe('FairShuffle', () => {
+    it('deals the same order from the same seeds', () => {
+        const { fairness, deck } = deal();
+        const again = FairShuffle.dealDeck(fairness.serverSeed!, fairness.clientSeed).cards;
+        expect(again.map(c => `${c.rank}${c.suit}${!!c.isJoker}`)).toEqual(deck.map(c => `${c.rank}${c.suit}${!!c.isJoker}`));
+    });
+
+    it('verifies an honest deal, comparing cards by face', () => {
+        const { fairness, deck } = deal();
+        expect(FairShuffle.verify(fairness, deck)).toBe(true);
+        expect(FairShuffle.verify(fairness, deck.map(({ suit, rank, isJoker }) => ({ suit, rank, isJoker })))).toBe(true);
+    });
+
+    it('rejects a seed that does not match the commitment', () => {
+        const { fairness, deck } = deal();
+        expect(FairShuffle.verify({ ...fairness, serverSeed: FairShuffle.newServerSeed() }, deck)).toBe(false);
+        expect(FairShuffle.verify({ ...fairness, serverSeed: undefined }, deck)).toBe(false);
+    });
+
+    it('rejects a seed swapped in together with its own commitment', () => {
+        const { fairness, deck } = deal();
+        const serverSeed = FairShuffle.newServerSeed();
+        expect(FairShuffle.verify({ ...fairness, serverSeed, commitment: FairShuffle.commit(serverSeed) }, deck)).toBe(false);
+    });
+
+    it('rejects a changed client seed', () => {
+        const { fairness, deck } = deal();
+        expect(FairShuffle.verify({ ...fairness, clientSeed: 'alice-seed:mallory-seed' }, deck)).toBe(false);
+        expect(FairShuffle.verify({ ...fairness, clientSeed: '' }, deck)).toBe(false);
+    });
+
+    it('rejects a deck in a different order or with cards missing', () => {
+        const { fairness, deck } = deal();
+        const swapped = [...deck];
+        const other = swapped.findIndex(c => c.suit !== deck[0].suit || c.rank !== deck[0].rank);
+        [swapped[0], swapped[other]] = [swapped[other], swapped[0]];
+        expect(FairShuffle.verify(fairness, swapped)).toBe(false);
+        expect(FairShuffle.verify(fairness, deck.slice(1))).toBe(false);
+    });
+});
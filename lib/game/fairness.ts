@@ -0,0 +1,61 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { Card, DealFairness } from './types';
+import { Deck, RandomSource } from './deck';
+
+// Provably fair dealing. The server commits to a secret seed (publishing its SHA-256)
+// before the players add their own seeds, shuffles with both, and reveals the secret
+// when the deal is over so anyone can repeat the shuffle.
+export class FairShuffle {
+    static newServerSeed(): string {
+        return randomBytes(32).toString('hex');
+    }
+
+    static commit(serverSeed: string): string {
+        return createHash('sha256').update(serverSeed).digest('hex');
+    }
+
+    // Integers from HMAC-SHA256(serverSeed, "clientSeed:nonce:counter"), rejection
+    // sampled so every value below max is equally likely. Nonce 0 is the deal,
+    // n is the n-th reshuffle of the discards.
+    static random(serverSeed: string, clientSeed: string, nonce: number): RandomSource {
+        let counter = 0;
+        let block = Buffer.alloc(0);
+        let offset = 0;
+
+        const nextUint32 = () => {
+            if (offset + 4 > block.length) {
+                block = createHmac('sha256', serverSeed).update(`${clientSeed}:${nonce}:${counter++}`).digest();
+                offset = 0;
+            }
+            const value = block.readUInt32BE(offset);
+            offset += 4;
+            return value;
+        };
+
+        return (max: number) => {
+            const limit = Math.floor(0x100000000 / max) * max;
+            let value = nextUint32();
+            while (value >= limit) value = nextUint32();
+            return value % max;
+        };
+    }
+
+    // A fresh table deck in the order the seeds determine
+    static dealDeck(serverSeed: string, clientSeed: string): Deck {
+        const deck = new Deck(2, 2);
+        deck.shuffle(this.random(serverSeed, clientSeed, 0));
+        return deck;
+    }
+
+    // Standalone check of a finished deal: the revealed seed matches the commitment
+    // published before the deal, and shuffling with it gives the deck that was dealt.
+    // Card ids are random, so cards are compared by face.
+    static verify(fairness: DealFairness, deck: Pick<Card, 'suit' | 'rank' | 'isJoker'>[]): boolean {
+        if (!fairness.serverSeed || this.commit(fairness.serverSeed) !== fairness.commitment) return false;
+
+        const expected = this.dealDeck(fairness.serverSeed, fairness.clientSeed).cards;
+        return expected.length === deck.length && expected.every((card, i) =>
+            card.suit === deck[i].suit && card.rank === deck[i].rank && !!card.isJoker === !!deck[i].isJoker
+        );
+    }
+}
@@ -0,0 +1,46 @@
+import { PlayerState, PlayerScore, SplitOffer } from './types';
+
+export const POOL_LIMITS = [101, 201];
+export const SPLIT_MAX_PLAYERS = 3; // A split is only offered once the table is down to this many
+
+export class PoolRummy {
+    // Adds the deal's points to the running totals and eliminates anyone at the limit
+    static applyDeal(players: PlayerState[], scores: PlayerScore[], limit: number) {
+        for (const score of scores) {
+            const player = players.find(p => p.id === score.playerId);
+            if (!player || player.isEliminated) continue;
+            player.totalScore += score.points;
+            if (player.totalScore >= limit) player.isEliminated = true;
+        }
+    }
+
+    static remaining(players: PlayerState[]): PlayerState[] {
+        return players.filter(p => !p.isEliminated);
+    }
+
+    // The match is over once one player is left (or everyone busted in the same deal)
+    static matchWinner(players: PlayerState[]): PlayerState | undefined {
+        const remaining = this.remaining(players);
+        if (remaining.length === 1) return remaining[0];
+        if (remaining.length === 0) {
+            return [...players].sort((a, b) => a.totalScore - b.totalScore)[0];
+        }
+        return undefined;
+    }
+
+    static canOfferSplit(players: PlayerState[]): boolean {
+        const remaining = this.remaining(players);
+        return remaining.length >= 2 && remaining.length <= SPLIT_MAX_PLAYERS && remaining.length < players.length;
+    }
+
+    // Each survivor's share grows with how far they are from the limit
+    static offerSplit(players: PlayerState[], limit: number): SplitOffer {
+        const remaining = this.remaining(players);
+        const headroom = remaining.map(p => Math.max(limit - p.totalScore, 1));
+        const total = headroom.reduce((a, b) => a + b, 0);
+
+        const shares: Record<string, number> = {};
+        remaining.forEach((p, i) => shares[p.id] = headroom[i] / total);
+        return { shares, accepted: [] };
+    }
+}
@@ -0,0 +1,35 @@
+export const DEFAULT_RATING = 1200;
+const K_FACTOR = 32;
+
+// A player's place in a finished match; equal places are a draw between them
+export interface RatedPlace {
+    playerId: string;
+    rating: number;
+    place: number; // 0 is first
+}
+
+// Elo for tables of two to six: every pair of players is scored as a game of its
+// own, and the K factor is shared out so a match moves a rating about as much as
+// a single head-to-head game would.
+export class EloRating {
+    static expected(rating: number, opponent: number): number {
+        return 1 / (1 + Math.pow(10, (opponent - rating) / 400));
+    }
+
+    // Rating change per player id, rounded to whole points
+    static changes(places: RatedPlace[]): Record<string, number> {
+        const changes: Record<string, number> = {};
+        const k = K_FACTOR / Math.max(1, places.length - 1);
+
+        for (const player of places) {
+            let delta = 0;
+            for (const opponent of places) {
+                if (opponent === player) continue;
+                const actual = player.place < opponent.place ? 1 : player.place === opponent.place ? 0.5 : 0;
+                delta += k * (actual - this.expected(player.rating, opponent.rating));
+            }
+            changes[player.playerId] = Math.round(delta);
+        }
+        return changes;
+    }
+}
@@ -0,0 +1,192 @@
+import { Card, GameLogEntry, GameState, PlayerState } from './types';
+import { WRONG_SHOW_PENALTY } from './scoring';
+import { DealsRummy } from './deals';
+
+// Rebuilds a table from its action log, following the same rules as RoomManager
+export class GameReplay {
+    // State after the entry with sequence number uptoSeq (the whole log by default)
+    static replay(log: GameLogEntry[], uptoSeq: number = Infinity): GameState {
+        const [create] = log;
+        if (!create || create.type !== 'create') throw new Error('Log does not start with the room being created');
+
+        const state: GameState = {
+            roomId: create.roomId,
+            matchId: create.matchId,
+            players: [],
+            spectators: [],
+            currentTurnPlayerId: '',
+            deckCount: 0,
+            discardPile: [],
+            status: 'waiting',
+            maxPlayers: create.maxPlayers,
+            variant: create.variant,
+            poolLimit: create.poolLimit,
+            dealCount: create.dealCount,
+            dealNumber: 0,
+            reshuffleCount: 0,
+            maxReshuffles: create.maxReshuffles,
+            turnSeconds: create.turnSeconds,
+            timeBankSeconds: create.timeBankSeconds,
+            seedCommitment: create.seedCommitment
+        };
+        if (create.entryFee) {
+            state.entryFee = create.entryFee;
+            state.pot = 0;
+        }
+        let stock: Card[] = [];
+
+        for (const entry of log) {
+            if (entry.seq > uptoSeq) break;
+            const player = 'playerId' in entry ? state.players.find(p => p.id === entry.playerId) : undefined;
+
+            switch (entry.type) {
+                case 'join': {
+                    const joined: PlayerState = { id: entry.playerId, name: entry.name, hand: [], isMyTurn: false, hasDropped: false, totalScore: 0 };
+                    if (state.variant === 'deals') joined.chips = DealsRummy.startingChips(state.dealCount!);
+                    state.players.push(joined);
+                    if (state.entryFee) state.pot! += state.entryFee;
+                    break;
+                }
+                case 'leave':
+                    if (!player) break;
+                    if (player.isMyTurn) this.advanceTurn(state, player.id);
+                    state.players.splice(state.players.indexOf(player), 1);
+                    // Stakes are only handed back before the first deal
+                    if (state.entryFee && state.status === 'waiting') state.pot! -= state.entryFee;
+                    break;
+                case 'deal':
+                    stock = this.deal(state, entry.deck, entry.dealNumber);
+                    state.fairness = { ...entry.fairness };
+                    break;
+                case 'reshuffle':
+                    state.discardPile = state.discardPile.slice(-1);
+                    state.reshuffleCount++;
+                    stock = [...entry.stock];
+                    break;
+                case 'draw': {
+                    const card = entry.fromDiscard ? state.discardPile.pop() : stock.shift();
+                    if (!player || !card) break;
+                    player.hand.push(card);
+                    player.hasDrawn = true;
+                    player.drawnCardId = card.id;
+                    break;
+                }
+                case 'discard':
+                    if (!player) break;
+                    this.throwCard(state, player, entry.cardId);
+                    this.advanceTurn(state, player.id);
+                    break;
+                case 'rearrange':
+                    if (!player) break;
+                    player.hand = entry.order.map(id => player.hand.find(c => c.id === id)).filter((c): c is Card => !!c);
+                    break;
+                case 'drop':
+                    if (!player) break;
+                    player.hasDropped = true;
+                    player.penalty = entry.penalty;
+                    this.advanceTurn(state, player.id);
+                    break;
+                case 'declare': {
+                    if (!player) break;
+                    const [finishCard] = player.hand.splice(player.hand.findIndex(c => c.id === entry.finishCardId), 1);
+                    player.declaredGroups = entry.groups;
+                    if (entry.valid) {
+                        player.isMyTurn = false;
+                        state.status = 'declaring';
+                        state.declarerId = player.id;
+                        state.finishCard = finishCard;
+                    } else {
+                        player.hasDropped = true;
+                        player.penalty = WRONG_SHOW_PENALTY;
+                        player.wrongShow = true;
+                        state.discardPile.push(finishCard);
+                        this.advanceTurn(state, player.id);
+                    }
+                    break;
+                }
+                case 'submit-groups':
+                    if (player) player.declaredGroups = entry.groups;
+                    break;
+                case 'deal-end':
+                    state.players.forEach(p => p.isMyTurn = false);
+                    state.winner = entry.winnerId;
+                    state.scores = entry.scores;
+                    for (const total of entry.totals) {
+                        const p = state.players.find(p => p.id === total.playerId);
+                        if (!p) continue;
+                        p.totalScore = total.totalScore;
+                        p.chips = total.chips;
+                        p.isEliminated = total.isEliminated;
+                    }
+                    state.matchWinner = entry.matchWinner;
+                    state.status = entry.matchOver ? 'ended' : 'deal-ended';
+                    if (state.fairness) state.fairness.serverSeed = entry.serverSeed;
+                    state.seedCommitment = entry.nextCommitment;
+                    break;
+                case 'match-end':
+                    state.status = 'ended';
+                    state.matchWinner = entry.winnerId;
+                    break;
+            }
+            state.deckCount = stock.length;
+        }
+        return state;
+    }
+
+    // Same order as RoomManager.beginDeal: 13 cards each, then the cut joker and the open card
+    private static deal(state: GameState, deck: Card[], dealNumber: number): Card[] {
+        const stock = [...deck];
+        for (const player of state.players) {
+            player.hand = [];
+            player.isMyTurn = false;
+            player.hasDropped = !!player.isEliminated;
+            player.hasDrawn = false;
+            player.penalty = undefined;
+            player.wrongShow = undefined;
+            player.declaredGroups = undefined;
+            player.drawnCardId = undefined;
+        }
+        state.discardPile = [];
+        state.reshuffleCount = 0;
+        state.declarerId = undefined;
+        state.finishCard = undefined;
+        state.winner = undefined;
+        state.scores = undefined;
+        state.status = 'playing';
+        state.dealNumber = dealNumber;
+
+        const seated = state.players.filter(p => !p.isEliminated);
+        seated.forEach(player => {
+            player.hand = stock.splice(0, 13);
+            player.hand.sort((a, b) => a.suit.localeCompare(b.suit));
+        });
+        state.wildCard = stock.shift();
+        const openCard = stock.shift();
+        if (openCard) state.discardPile.push(openCard);
+
+        const firstPlayer = seated[(dealNumber - 1) % seated.length];
+        state.currentTurnPlayerId = firstPlayer.id;
+        firstPlayer.isMyTurn = true;
+        return stock;
+    }
+
+    private static throwCard(state: GameState, player: PlayerState, cardId: string) {
+        const [card] = player.hand.splice(player.hand.findIndex(c => c.id === cardId), 1);
+        state.discardPile.push(card);
+        player.drawnCardId = undefined;
+    }
+
+    private static advanceTurn(state: GameState, fromPlayerId: string) {
+        const currentIndex = state.players.findIndex(p => p.id === fromPlayerId);
+        state.players.forEach(p => p.isMyTurn = false);
+
+        for (let step = 1; step <= state.players.length; step++) {
+            const next = state.players[(currentIndex + step) % state.players.length];
+            if (!next.hasDropped) {
+                next.isMyTurn = true;
+                state.currentTurnPlayerId = next.id;
+                return;
+            }
+        }
+    }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { Card, PlayerState, Rank, Suit } from './types';
+import { RummyScorer, MAX_POINTS, MIDDLE_DROP_PENALTY } from './scoring';
+
+let nextId = 0;
+const card = (rank: Rank, suit: Suit): Card => ({ rank, suit, id: `${rank}${suit[0]}-${nextId++}` });
+const joker = (): Card => ({ rank: 'A', suit: 'hearts', isJoker: true, id: `joker-${nextId++}` });
+const run = (suit: Suit, ...ranks: Rank[]) => ranks.map(rank => card(rank, suit));
+
+const player = (hand: Card[], groups: Card[][], extra: Partial<PlayerState> = {}): PlayerState => ({
+    id: 'p1',
+    name: 'Player',
+    hand,
+    isMyTurn: false,
+    hasDropped: false,
+    totalScore: 0,
+    declaredGroups: groups.map(g => g.map(c => c.id)),
+    ...extra
+});
+
+describe('RummyScorer', () => {
+    it('counts face cards and aces as 10 and the rest at face value', () => {
+        expect(RummyScorer.getHandPoints([card('A', 'spades'), card('K', 'hearts'), card('7', 'clubs'), card('2', 'diamonds')])).toBe(29);
+    });
+
+    it('counts jokers and wild cards as free', () => {
+        const wildCard = card('5', 'clubs');
+        expect(RummyScorer.getHandPoints([joker(), card('5', 'hearts'), card('K', 'spades')], wildCard)).toBe(10);
+    });
+
+    it('caps a deal at 80 points', () => {
+        const hand = [...run('spades', 'K', 'Q', 'J', '10'), ...run('hearts', 'K', 'Q', 'J', '10', '9'), ...run('clubs', 'K', 'Q', 'J', '10')];
+        expect(RummyScorer.getHandPoints(hand)).toBe(MAX_POINTS);
+        expect(RummyScorer.scorePlayer(player(hand, [hand]), undefined, false).points).toBe(MAX_POINTS);
+    });
+
+    it('only charges ungrouped cards once both sequences are down', () => {
+        const groups = [
+            run('spades', '3', '4', '5'),
+            [...run('hearts', '4', '6'), joker()],
+            [card('9', 'spades'), card('9', 'hearts'), card('9', 'clubs')]
+        ];
+        const loose = [card('K', 'clubs'), card('7', 'diamonds'), card('2', 'clubs'), card('J', 'hearts')];
+        const score = RummyScorer.scorePlayer(player([...groups.flat(), ...loose], [...groups, loose]), undefined, false);
+        expect(score).toMatchObject({ reason: 'deadwood', points: 29 });
+    });
+
+    it('charges the whole hand when a repeated group stands in for a second sequence', () => {
+        const pure = run('spades', '3', '4', '5');
+        const set = [card('K', 'hearts'), card('K', 'diamonds'), card('K', 'clubs')];
+        const rest = [card('Q', 'hearts'), card('Q', 'diamonds'), card('J', 'clubs'), card('10', 'diamonds'), card('9', 'hearts'), card('8', 'clubs'), card('2', 'diamonds')];
+        const hand = [...pure, ...set, ...rest];
+
+        expect(RummyScorer.scorePlayer(player(hand, [pure, set, rest]), undefined, false).points).toBe(MAX_POINTS);
+        expect(RummyScorer.scorePlayer(player(hand, [pure, pure, set, rest]), undefined, false).points).toBe(MAX_POINTS);
+    });
+
+    it('charges the winner nothing and a dropped player their penalty', () => {
+        const hand = run('clubs', 'K', 'Q', 'J');
+        expect(RummyScorer.scorePlayer(player(hand, []), undefined, true)).toMatchObject({ reason: 'winner', points: 0 });
+        const dropped = player(hand, [], { hasDropped: true, penalty: MIDDLE_DROP_PENALTY });
+        expect(RummyScorer.scorePlayer(dropped, undefined, false)).toMatchObject({ reason: 'dropped', points: MIDDLE_DROP_PENALTY });
+    });
+});
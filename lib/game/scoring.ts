@@ -0,0 +1,52 @@
+import { Card, GameState, PlayerState, PlayerScore } from './types';
+import { RummyValidator } from './validator';
+
+export const MAX_POINTS = 80; // Cap on what a single deal can cost
+export const WRONG_SHOW_PENALTY = MAX_POINTS;
+export const FIRST_DROP_PENALTY = 20; // Dropped before ever drawing
+export const MIDDLE_DROP_PENALTY = 40;
+
+export class RummyScorer {
+    // Jokers and wild cards are free, A/J/Q/K count 10, the rest their face value
+    static getCardPoints(card: Card, wildCard?: Card): number {
+        if (RummyValidator.isJokerCard(card, wildCard)) return 0;
+        if (['A', 'J', 'Q', 'K'].includes(card.rank)) return 10;
+        return RummyValidator.getCardValue(card.rank);
+    }
+
+    static getHandPoints(cards: Card[], wildCard?: Card): number {
+        const total = cards.reduce((sum, c) => sum + this.getCardPoints(c, wildCard), 0);
+        return Math.min(total, MAX_POINTS);
+    }
+
+    // Maps submitted card ids back onto the hand, ignoring ids that are not there
+    static resolveGroups(hand: Card[], groupIds: string[][] = []): Card[][] {
+        const cardMap = new Map(hand.map(c => [c.id, c]));
+        return groupIds
+            .map(ids => ids.map(id => cardMap.get(id)).filter((c): c is Card => !!c))
+            .filter(group => group.length > 0);
+    }
+
+    static scorePlayer(player: PlayerState, wildCard: Card | undefined, isWinner: boolean): PlayerScore {
+        const groups = this.resolveGroups(player.hand, player.declaredGroups);
+        const result = RummyValidator.validateHand(player.hand, groups, wildCard);
+        const base = { playerId: player.id, name: player.name, groups: result.groups };
+
+        if (isWinner) return { ...base, reason: 'winner', points: 0, deadwood: [] };
+
+        if (player.hasDropped && player.penalty !== undefined) {
+            const reason = player.wrongShow ? 'wrong_show' : 'dropped';
+            return { ...base, reason, points: player.penalty, deadwood: result.deadwood };
+        }
+
+        // Without a pure sequence, or with groups that repeat or leave out cards, the
+        // validator already counts the whole hand
+        return { ...base, reason: 'deadwood', points: this.getHandPoints(result.deadwood, wildCard), deadwood: result.deadwood };
+    }
+
+    static scoreDeal(state: GameState): PlayerScore[] {
+        return state.players
+            .filter(p => !p.isEliminated)
+            .map(p => this.scorePlayer(p, state.wildCard, p.id === state.winner));
+    }
+}
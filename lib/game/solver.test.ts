@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { Card, Rank, Suit } from './types';
+import { RummySolver } from './solver';
+import { RummyValidator } from './validator';
+import { RummyScorer } from './scoring';
+
+let nextId = 0;
+const card = (rank: Rank, suit: Suit): Card => ({ rank, suit, id: `${rank}${suit[0]}-${nextId++}` });
+const joker = (): Card => ({ rank: 'A', suit: 'hearts', isJoker: true, id: `joker-${nextId++}` });
+const run = (suit: Suit, ...ranks: Rank[]) => ranks.map(rank => card(rank, suit));
+
+// Points of the best split of a small hand, trying every partition into groups
+const bruteForce = (hand: Card[], wildCard?: Card): number => {
+    let best = Infinity;
+    const groups: Card[][] = [];
+    const place = (i: number) => {
+        if (i === hand.length) {
+            const { deadwood } = RummyValidator.validateHand(hand, groups, wildCard);
+            best = Math.min(best, RummyScorer.getHandPoints(deadwood, wildCard));
+            return;
+        }
+        for (const group of groups) {
+            group.push(hand[i]);
+            place(i + 1);
+            group.pop();
+        }
+        groups.push([hand[i]]);
+        place(i + 1);
+        groups.pop();
+    };
+    place(0);
+    return best;
+};
+
+// Deterministic so a failure can be replayed
+const random = (seed: number) => () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+};
+
+// Every meld the solver returns has to hold up under the validator, and the points it
+// reports have to be what the validator charges for that grouping
+const expectConsistent = (hand: Card[], wildCard?: Card) => {
+    const suggestion = RummySolver.suggestGrouping(hand, wildCard);
+    for (const group of suggestion.groups) {
+        expect(RummyValidator.getMeldType(group, wildCard)).not.toBe('invalid');
+    }
+    const used = [...suggestion.groups.flat(), ...suggestion.deadwood].map(c => c.id).sort();
+    expect(used).toEqual(hand.map(c => c.id).sort());
+
+    const groups = suggestion.deadwood.length > 0 ? [...suggestion.groups, suggestion.deadwood] : suggestion.groups;
+    const { deadwood } = RummyValidator.validateHand(hand, groups, wildCard);
+    expect(suggestion.points).toBe(RummyScorer.getHandPoints(deadwood, wildCard));
+    return suggestion;
+};
+
+describe('RummySolver.suggestGrouping', () => {
+    it('finds a declarable grouping of a scrambled hand', () => {
+        const hand = [
+            ...run('hearts', '9', '10', 'J'),
+            card('4', 'spades'), card('4', 'clubs'), card('4', 'diamonds'),
+            ...run('clubs', '2', '3'), joker(),
+            card('Q', 'spades'), card('Q', 'hearts'), card('Q', 'diamonds'), card('Q', 'clubs')
+        ].reverse();
+        const suggestion = expectConsistent(hand);
+        expect(suggestion.points).toBe(0);
+        expect(RummyValidator.validateHand(hand, suggestion.groups).isValid).toBe(true);
+    });
+
+    it('uses several printed jokers and wild cards together', () => {
+        const wildCard = card('7', 'diamonds');
+        const hand = [
+            ...run('spades', '5', '6'), card('7', 'hearts'),
+            card('K', 'clubs'), card('K', 'hearts'), joker(),
+            ...run('diamonds', '2', '3', '4'),
+            card('9', 'hearts'), card('9', 'spades'), card('7', 'clubs'), joker()
+        ];
+        const suggestion = expectConsistent(hand, wildCard);
+        // The 7s are wild, so 5-6 and both pairs each need one of the four jokers
+        expect(suggestion.points).toBe(0);
+        expect(suggestion.deadwood).toEqual([]);
+    });
+
+    it('keeps a wild card in its natural spot when that makes the only pure sequence', () => {
+        const wildCard = card('6', 'clubs');
+        const hand = [
+            ...run('hearts', '5', '6', '7'),
+            ...run('spades', '9', 'J'), joker(),
+            card('K', 'clubs'), card('K', 'diamonds'), card('2', 'hearts'),
+            card('3', 'clubs'), card('8', 'diamonds'), card('10', 'clubs'), card('4', 'spades')
+        ];
+        const suggestion = expectConsistent(hand, wildCard);
+        expect(suggestion.groups.some(g => RummyValidator.getMeldType(g, wildCard) === 'pure_sequence')).toBe(true);
+        expect(suggestion.points).toBe(RummyScorer.getHandPoints(suggestion.deadwood, wildCard));
+    });
+
+    it('handles a 14-card hand', () => {
+        const hand = [
+            ...run('spades', 'A', '2', '3', '4'),
+            ...run('hearts', '7', '8', '9'),
+            card('K', 'spades'), card('K', 'hearts'), joker(),
+            ...run('clubs', '5', '6'), joker(),
+            card('Q', 'diamonds')
+        ];
+        const suggestion = expectConsistent(hand);
+        expect(suggestion.deadwood.map(c => c.rank)).toEqual(['Q']);
+    });
+
+    it('matches an exhaustive search on small hands with jokers and wild cards', () => {
+        const next = random(7);
+        const suits: Suit[] = ['spades', 'hearts'];
+        const ranks: Rank[] = ['2', '3', '4', '5', '6', '7'];
+
+        for (let round = 0; round < 40; round++) {
+            const pool: Card[] = [joker(), joker()];
+            for (let copy = 0; copy < 2; copy++) {
+                for (const suit of suits) pool.push(...run(suit, ...ranks));
+            }
+            const hand: Card[] = [];
+            while (hand.length < 8) hand.push(pool.splice(Math.floor(next() * pool.length), 1)[0]);
+            const wildCard = next() < 0.2 ? joker() : card(ranks[Math.floor(next() * ranks.length)], 'clubs');
+
+            const suggestion = expectConsistent(hand, wildCard);
+            expect(suggestion.points).toBe(bruteForce(hand, wildCard));
+        }
+    });
+});
@@ -0,0 +1,318 @@
+import { Card, GroupingSuggestion } from './types';
+import { SUITS, RANKS } from './deck';
+import { RummyValidator } from './validator';
+import { RummyScorer } from './scoring';
+
+// A card slot inside a candidate meld. Jokers (printed or wild) are kept in a shared pool
+// and only leave it when a meld claims them; wild cards can also sit in their natural spot.
+// Any joker fills a plain joker slot, so which one does is only settled when the grouping
+// is reconstructed, after the wild cards in natural spots have been handed out.
+type Slot =
+    | { kind: 'real', index: number }
+    | { kind: 'joker' }
+    | { kind: 'natural', suit: number };
+
+type Choice =
+    | { kind: 'deadwood', index: number }
+    | { kind: 'meld', slots: Slot[], isSequence: boolean, isPure: boolean };
+
+interface Entry {
+    cost: number;
+    choice?: Choice;
+}
+
+const SUIT_COUNT = SUITS.length;
+const RANK_COUNT = RANKS.length;
+const MAX_RUN = 5; // Longer runs always split into two valid runs, so they are never needed
+const MAX_SET = 4;
+
+// What the search aims for, matching how the validator charges a hand:
+// declare: a pure sequence plus a second sequence, so every meld is safe
+// pure: a pure sequence but no second one, so only pure sequences are safe
+// free: fewest raw deadwood points, for hands with no pure sequence yet
+type SearchMode = 'declare' | 'pure' | 'free';
+
+// Exhaustive search over meld choices, memoised on what is left of the hand.
+// Cards are indexed suit-major so the lowest remaining card is always decided next.
+class GroupingSearch {
+    private counts: number[] = new Array(SUIT_COUNT * RANK_COUNT).fill(0);
+    private printed = 0;
+    private wild: number[] = new Array(SUIT_COUNT).fill(0); // Wild cards per suit not yet in a natural spot
+    private jokersUsed = 0; // Joker slots filled so far
+    private memo = new Map<string, Entry>();
+
+    constructor(private hand: Card[], private wildCard: Card | undefined, private mode: SearchMode) {
+        for (const card of hand) {
+            if (card.isJoker) this.printed++;
+            else if (RummyValidator.isWildCard(card, wildCard)) this.wild[SUITS.indexOf(card.suit)]++;
+            else this.counts[this.indexOf(card)]++;
+        }
+    }
+
+    private indexOf(card: Card): number {
+        return SUITS.indexOf(card.suit) * RANK_COUNT + RANKS.indexOf(card.rank);
+    }
+
+    // Jokers still free for any slot
+    private get poolSize(): number {
+        return this.printed + this.wild.reduce((a, b) => a + b, 0) - this.jokersUsed;
+    }
+
+    private key(pure: boolean, sequences: number): string {
+        const base = `${this.counts.join('')}|${this.wild.join('')}|${this.jokersUsed}`;
+        return this.mode === 'free' ? base : `${base}|${pure ? 1 : 0}${sequences}`;
+    }
+
+    private take(slot: Slot, delta: number) {
+        if (slot.kind === 'real') this.counts[slot.index] -= delta;
+        else if (slot.kind === 'joker') this.jokersUsed += delta;
+        else this.wild[slot.suit] -= delta;
+    }
+
+    private isWildRankIndex(rankIndex: number): boolean {
+        return RANKS[rankIndex] === RummyValidator.getWildRank(this.wildCard);
+    }
+
+    solve(pure = false, sequences = 0): number {
+        const key = this.key(pure, sequences);
+        const cached = this.memo.get(key);
+        if (cached) return cached.cost;
+
+        const first = this.counts.findIndex(c => c > 0);
+        if (first === -1) {
+            // Leftover jokers can always form one more (all-joker) sequence when three remain
+            const done = this.mode === 'free'
+                || (pure && (this.mode === 'pure' || sequences >= 2 || this.poolSize >= 3));
+            const entry = { cost: done ? 0 : Infinity };
+            this.memo.set(key, entry);
+            return entry.cost;
+        }
+
+        const best: Entry = { cost: Infinity };
+        const consider = (choice: Choice, cost: number) => {
+            if (cost < best.cost) {
+                best.cost = cost;
+                best.choice = choice;
+            }
+        };
+
+        // Leave the card as deadwood
+        const suit = Math.floor(first / RANK_COUNT);
+        const rankIndex = first % RANK_COUNT;
+        const points = RummyScorer.getCardPoints({ suit: SUITS[suit], rank: RANKS[rankIndex], id: '' }, this.wildCard);
+        this.counts[first]--;
+        consider({ kind: 'deadwood', index: first }, points + this.solve(pure, sequences));
+        this.counts[first]++;
+
+        // Called with the meld's cards already taken out of the hand
+        const tryMeld = (slots: Slot[], isSequence: boolean) => {
+            const isPure = isSequence && slots.every(s => s.kind !== 'joker');
+            if (this.mode === 'pure' && !isPure) return;
+            const nextPure = pure || isPure;
+            const nextSequences = isSequence ? Math.min(sequences + 1, 2) : sequences;
+            consider({ kind: 'meld', slots: [...slots], isSequence, isPure }, this.solve(nextPure, nextSequences));
+        };
+
+        this.searchRuns(first, tryMeld);
+        this.searchSets(first, tryMeld);
+
+        this.memo.set(key, best);
+        return best.cost;
+    }
+
+    // Runs of 3 to 5 in the first card's suit that contain it (A may sit low or high)
+    private searchRuns(first: number, tryMeld: (slots: Slot[], isSequence: boolean) => void) {
+        const suit = Math.floor(first / RANK_COUNT);
+        const rankIndex = first % RANK_COUNT;
+        const positions = rankIndex === 0 ? [1, 14] : [rankIndex + 1];
+
+        for (const position of positions) {
+            for (let length = 3; length <= MAX_RUN; length++) {
+                for (let start = position - length + 1; start <= position; start++) {
+                    const end = start + length - 1;
+                    if (start < 1 || end > 14) continue;
+
+                    const slots: Slot[] = [];
+                    const fill = (value: number) => {
+                        if (value > end) {
+                            tryMeld(slots, true);
+                            return;
+                        }
+                        if (value === position) {
+                            slots.push({ kind: 'real', index: first });
+                            this.take(slots[slots.length - 1], 1);
+                            fill(value + 1);
+                            this.take(slots.pop()!, -1);
+                            return;
+                        }
+
+                        const valueRank = value === 14 ? 0 : value - 1;
+                        const index = suit * RANK_COUNT + valueRank;
+                        const options: Slot[] = [];
+                        if (this.counts[index] > 0) options.push({ kind: 'real', index });
+                        if (this.poolSize > 0) {
+                            if (this.isWildRankIndex(valueRank) && this.wild[suit] > 0) options.push({ kind: 'natural', suit });
+                            options.push({ kind: 'joker' });
+                        }
+
+                        for (const option of options) {
+                            slots.push(option);
+                            this.take(option, 1);
+                            fill(value + 1);
+                            this.take(option, -1);
+                            slots.pop();
+                        }
+                    };
+                    fill(start);
+                }
+            }
+        }
+    }
+
+    // Sets of 3 or 4 with the first card, other suits of its rank and jokers
+    private searchSets(first: number, tryMeld: (slots: Slot[], isSequence: boolean) => void) {
+        const suit = Math.floor(first / RANK_COUNT);
+        const rankIndex = first % RANK_COUNT;
+        const others: Slot[] = [];
+        for (let other = 0; other < SUIT_COUNT; other++) {
+            const index = other * RANK_COUNT + rankIndex;
+            if (other !== suit && this.counts[index] > 0) others.push({ kind: 'real', index });
+        }
+
+        const slots: Slot[] = [{ kind: 'real', index: first }];
+        this.take(slots[0], 1);
+
+        const addJokers = () => {
+            if (slots.length >= 3) tryMeld(slots, false);
+            if (slots.length >= MAX_SET || this.poolSize === 0) return;
+            const joker: Slot = { kind: 'joker' };
+            slots.push(joker);
+            this.take(joker, 1);
+            addJokers();
+            this.take(joker, -1);
+            slots.pop();
+        };
+
+        const addReal = (from: number) => {
+            addJokers();
+            if (slots.length >= MAX_SET) return;
+            for (let i = from; i < others.length; i++) {
+                slots.push(others[i]);
+                this.take(others[i], 1);
+                addReal(i + 1);
+                this.take(others[i], -1);
+                slots.pop();
+            }
+        };
+
+        addReal(0);
+        this.take(slots[0], -1);
+    }
+
+    // Replays the memoised choices, handing out concrete cards for every slot
+    reconstruct(): { melds: { cards: Card[], isSequence: boolean, isPure: boolean }[], deadwood: Card[], jokers: Card[] } {
+        const byIndex = new Map<number, Card[]>();
+        const printedCards: Card[] = [];
+        const wildCards: Card[][] = SUITS.map(() => []);
+        for (const card of this.hand) {
+            if (card.isJoker) printedCards.push(card);
+            else if (RummyValidator.isWildCard(card, this.wildCard)) wildCards[SUITS.indexOf(card.suit)].push(card);
+            else {
+                const index = this.indexOf(card);
+                byIndex.set(index, [...(byIndex.get(index) || []), card]);
+            }
+        }
+
+        const chosen: { slots: Slot[], isSequence: boolean, isPure: boolean }[] = [];
+        const deadwood: Card[] = [];
+        let pure = false;
+        let sequences = 0;
+
+        for (;;) {
+            const entry = this.memo.get(this.key(pure, sequences));
+            if (!entry || !entry.choice) break;
+            const choice = entry.choice;
+
+            if (choice.kind === 'deadwood') {
+                this.counts[choice.index]--;
+                deadwood.push(byIndex.get(choice.index)!.pop()!);
+                continue;
+            }
+
+            choice.slots.forEach(s => this.take(s, 1));
+            chosen.push(choice);
+            pure = pure || choice.isPure;
+            if (choice.isSequence) sequences = Math.min(sequences + 1, 2);
+        }
+
+        // Wild cards in natural spots first; joker slots take whatever is left over
+        const naturals = chosen.map(m => m.slots.map(s => s.kind === 'natural' ? wildCards[s.suit].pop()! : undefined));
+        const spare = [...printedCards, ...wildCards.flat()];
+        const melds = chosen.map((m, i) => ({
+            cards: m.slots.map((s, j) => s.kind === 'real' ? byIndex.get(s.index)!.pop()! : naturals[i][j] ?? spare.pop()!),
+            isSequence: m.isSequence,
+            isPure: m.isPure
+        }));
+
+        return { melds, deadwood, jokers: spare };
+    }
+}
+
+export class RummySolver {
+    // Finds the grouping of a hand (13 or 14 cards) that leaves the fewest deadwood points
+    static suggestGrouping(hand: Card[], wildCard?: Card): GroupingSuggestion {
+        const candidates: Card[][][] = [];
+
+        for (const mode of ['declare', 'pure', 'free'] as const) {
+            const search = new GroupingSearch(hand, wildCard, mode);
+            if (search.solve() === Infinity) continue;
+            candidates.push(this.layout(search.reconstruct()));
+        }
+
+        let best: GroupingSuggestion | null = null;
+        for (const groups of candidates) {
+            const suggestion = this.evaluate(hand, groups, wildCard);
+            if (!best || suggestion.points < best.points) best = suggestion;
+        }
+        return best || this.evaluate(hand, [], wildCard);
+    }
+
+    // Places leftover jokers where they do not break anything, then orders the groups
+    private static layout(result: ReturnType<GroupingSearch['reconstruct']>): Card[][] {
+        const { melds, deadwood, jokers } = result;
+        const sequenceCount = melds.filter(m => m.isSequence).length;
+        const pureCount = melds.filter(m => m.isPure).length;
+
+        if (jokers.length >= 3 && sequenceCount < 2) {
+            melds.push({ cards: jokers, isSequence: true, isPure: false });
+        } else {
+            for (const joker of jokers) {
+                const target = melds.find(m => m.isSequence && !m.isPure && m.cards.length < RANK_COUNT)
+                    || melds.find(m => !m.isSequence && m.cards.length < MAX_SET)
+                    || (pureCount > 1 ? melds.find(m => m.isPure && m.cards.length < RANK_COUNT) : undefined);
+                if (target) {
+                    target.cards.push(joker);
+                    if (target.isPure) target.isPure = false;
+                } else {
+                    deadwood.push(joker);
+                }
+            }
+        }
+
+        const order = (m: { isSequence: boolean, isPure: boolean }) => m.isPure ? 0 : (m.isSequence ? 1 : 2);
+        const groups = melds.sort((a, b) => order(a) - order(b)).map(m => m.cards);
+        if (deadwood.length > 0) groups.push(RummyValidator.sortCards(deadwood));
+        return groups;
+    }
+
+    private static evaluate(hand: Card[], groups: Card[][], wildCard?: Card): GroupingSuggestion {
+        const result = RummyValidator.validateHand(hand, groups, wildCard);
+        const melds = result.groups.filter(g => g.type !== 'invalid').map(g => g.cards);
+        const melded = new Set(melds.flat().map(c => c.id));
+        return {
+            groups: melds,
+            deadwood: hand.filter(c => !melded.has(c.id)),
+            points: RummyScorer.getHandPoints(result.deadwood, wildCard)
+        };
+    }
+}
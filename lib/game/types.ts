@@ -15,21 +15,196 @@ export interface Meld {
     type: MeldType;
 }
 
+export interface GroupResult extends Meld {
+    error?: string; // Why the group is invalid
+}
+
+export interface DeclarationResult {
+    isValid: boolean;
+    error?: string;
+    groups: GroupResult[];
+    deadwood: Card[]; // Cards that would count against the player
+}
+
+export interface GroupingSuggestion {
+    groups: Card[][]; // Valid melds
+    deadwood: Card[]; // Cards left outside every meld
+    points: number; // What the hand would cost, following the declaration rules
+}
+
+export type ScoreReason = 'winner' | 'deadwood' | 'dropped' | 'wrong_show';
+
+export interface PlayerScore {
+    playerId: string;
+    name: string;
+    reason: ScoreReason;
+    points: number; // Charged for the deal, capped
+    groups: GroupResult[];
+    deadwood: Card[];
+}
+
+export type BotLevel = 'easy' | 'medium' | 'hard';
+
 export interface PlayerState {
     id: string;
     name: string;
     hand: Card[];
     isMyTurn: boolean;
-    hasDropped: boolean;
+    hasDropped: boolean; // Out of the current deal (dropped or wrong declaration)
+    hasDrawn?: boolean; // Has drawn at least once this deal (first vs middle drop)
+    totalScore: number; // Running points across the deals of a match
+    isEliminated?: boolean; // Pool: reached the limit, watches the remaining deals
+    chips?: number; // Deals: balance, losers pay their points to the deal winner
+    penalty?: number; // Fixed points charged instead of deadwood
+    wrongShow?: boolean;
+    declaredGroups?: string[][]; // Card ids submitted at the show
+    drawnCardId?: string; // Card picked up this turn, thrown back if the turn times out
+    timeBank?: number; // Ms of extra time left this deal
+    timeouts?: number; // Consecutive turns that ran out of time
+    disconnected?: boolean;
+    reconnectDeadline?: number; // Epoch ms when a disconnected player loses their seat
+    clientSeed?: string; // Mixed into the shuffle of the next deal, see FairShuffle
+    bot?: BotLevel; // Computer-controlled seat
+}
+
+export type GameVariant = 'points' | 'pool' | 'deals';
+
+export interface RoomOptions {
+    maxReshuffles?: number; // Times the discard pile may be recycled before the deal is drawn
+    variant?: GameVariant;
+    poolLimit?: 101 | 201; // Pool: running total that eliminates a player
+    dealCount?: 2 | 3 | 6; // Deals: number of deals in the match
+    turnSeconds?: number;
+    timeBankSeconds?: number;
+    entryFee?: number; // Coins each player puts in the pot when taking a seat
+}
+
+export interface SplitOffer {
+    shares: Record<string, number>; // Player id -> fraction of the pot
+    accepted: string[];
+}
+
+export interface Standing {
+    playerId: string;
+    name: string;
+    totalScore: number;
+    isEliminated: boolean;
+    chips?: number; // Deals: balance at the end of the match
+    share?: number; // Fraction of the pot when the match ended in a split
+}
+
+export interface MatchPlayerResult extends Standing {
+    bot?: BotLevel;
+    place: number; // Finishing position for ratings, 0 first; equal places tie
+    deadwood: number; // Points left in hand over the deals they played out
+    deadwoodDeals: number;
+}
+
+// Outcome of a finished match as it is written to the database
+export interface MatchResult {
+    matchId: string; // Also the key of the archived action log
+    roomId: string;
+    variant: GameVariant;
+    players: MatchPlayerResult[];
+    winnerId?: string;
+    reason: string;
+    deals: number;
+    startedAt: number; // Epoch ms of the first deal
+    endedAt: number;
+    entryFee?: number;
+    shares?: Record<string, number>; // Player id -> fraction of the pot they win
+    rakePercent?: number;
+}
+
+// Commit-reveal record of one deal's shuffle
+export interface DealFairness {
+    dealNumber: number;
+    commitment: string; // SHA-256 of the server seed, published before the players' seeds were in
+    clientSeed: string; // The seated players' seeds, joined in seat order
+    serverSeed?: string; // Revealed once the deal is over
+}
+
+// Watches the table without a seat; never dealt in
+export interface Spectator {
+    id: string;
+    name: string;
 }
 
 export interface GameState {
     roomId: string;
+    matchId: string; // Names the archived action log once the match is over
     players: PlayerState[];
+    spectators: Spectator[];
     currentTurnPlayerId: string;
     deckCount: number;
     discardPile: Card[];
-    status: 'waiting' | 'playing' | 'ended';
+    status: 'waiting' | 'playing' | 'declaring' | 'deal-ended' | 'ended';
     maxPlayers: number;
+    variant: GameVariant;
+    poolLimit?: number;
+    dealCount?: number;
+    dealNumber: number; // 0 until the first deal is dealt
+    splitOffer?: SplitOffer;
+    reshuffleCount: number;
+    maxReshuffles: number;
+    wildCard?: Card; // Cut joker revealed at deal; every card of its rank is a joker
+    declarerId?: string;
+    finishCard?: Card; // Card placed face down by the declarer
+    showDeadline?: number; // Epoch ms until which the others may submit their groups
+    turnSeconds: number;
+    timeBankSeconds: number;
+    turnStartedAt?: number;
+    turnDeadline?: number; // Epoch ms when the current turn is played automatically, time bank included
+    nextDealAt?: number; // Epoch ms when the next deal of a match starts on its own
+    botMoveAt?: number; // Epoch ms when a bot plays its turn or submits its show
     winner?: string;
+    scores?: PlayerScore[]; // Filled in when the deal ends
+    matchWinner?: string;
+    seedCommitment: string; // Commitment to the server seed of the next deal
+    fairness?: DealFairness; // Current (or last) deal
+    entryFee?: number;
+    pot?: number; // Stakes paid in, forfeited ones included
+}
+
+// A GameState as sent to one client: hands other than the viewer's are emptied
+// until the deal is over
+export interface PlayerView extends PlayerState {
+    cardCount: number;
+}
+
+export interface GameView extends GameState {
+    players: PlayerView[];
+    turnRemaining?: number; // Ms left on the turn clock when the view was sent, time bank included
 }
+
+// Running totals of one player after a deal was scored
+export interface DealTotal {
+    playerId: string;
+    totalScore: number;
+    chips?: number;
+    isEliminated?: boolean;
+}
+
+// Everything that changes the table, in the order it was accepted. Replaying the
+// actions in order, starting from the deck order recorded at each deal, rebuilds
+// the game (see GameReplay). Clocks, connections and spectators are not recorded.
+export type GameAction =
+    | { type: 'create'; roomId: string; matchId: string; variant: GameVariant; maxPlayers: number; poolLimit?: number; dealCount?: number; maxReshuffles: number; turnSeconds: number; timeBankSeconds: number; seedCommitment: string; entryFee?: number }
+    | { type: 'join'; playerId: string; name: string }
+    | { type: 'leave'; playerId: string }
+    | { type: 'deal'; dealNumber: number; deck: Card[]; fairness: DealFairness } // Deck order before the hands were dealt
+    | { type: 'draw'; playerId: string; fromDiscard: boolean; cardId: string }
+    | { type: 'reshuffle'; stock: Card[] } // Stock order after the discards were recycled
+    | { type: 'discard'; playerId: string; cardId: string }
+    | { type: 'rearrange'; playerId: string; order: string[] }
+    | { type: 'timeout'; playerId: string }
+    | { type: 'drop'; playerId: string; penalty: number }
+    | { type: 'declare'; playerId: string; finishCardId: string; groups: string[][]; valid: boolean }
+    | { type: 'submit-groups'; playerId: string; groups: string[][] }
+    | { type: 'deal-end'; winnerId?: string; reason: string; scores: PlayerScore[]; totals: DealTotal[]; matchOver: boolean; matchWinner?: string; serverSeed: string; nextCommitment: string }
+    | { type: 'match-end'; reason: string; winnerId?: string };
+
+export type GameLogEntry = GameAction & {
+    seq: number; // Position in the room's log, starting at 0
+    at: number; // Epoch ms when the action was accepted
+};
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { Card, Rank, Suit } from './types';
+import { RummyValidator } from './validator';
+
+let nextId = 0;
+const card = (rank: Rank, suit: Suit): Card => ({ rank, suit, id: `${rank}${suit[0]}-${nextId++}` });
+const joker = (): Card => ({ rank: 'A', suit: 'hearts', isJoker: true, id: `joker-${nextId++}` });
+const run = (suit: Suit, ...ranks: Rank[]) => ranks.map(rank => card(rank, suit));
+const ALL_RANKS: Rank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
+
+describe('RummyValidator sequences', () => {
+    it('accepts ace low and ace high runs', () => {
+        expect(RummyValidator.isPureSequence(run('spades', 'A', '2', '3'))).toBe(true);
+        expect(RummyValidator.isPureSequence(run('spades', 'Q', 'K', 'A'))).toBe(true);
+        expect(RummyValidator.isPureSequence(run('spades', 'J', 'Q', 'K', 'A'))).toBe(true);
+    });
+
+    it('does not wrap round from K to 2', () => {
+        expect(RummyValidator.isPureSequence(run('spades', 'K', 'A', '2'))).toBe(false);
+        expect(RummyValidator.isImpureSequence([...run('spades', 'K', '2'), joker()])).toBe(false);
+        expect(RummyValidator.getMeldType([...run('spades', 'K', 'A', '2'), joker()])).toBe('invalid');
+    });
+
+    it('rejects runs longer than a suit', () => {
+        expect(RummyValidator.isPureSequence(run('spades', ...ALL_RANKS))).toBe(true);
+        expect(RummyValidator.isImpureSequence([...run('spades', ...ALL_RANKS), joker()])).toBe(false);
+        expect(RummyValidator.isImpureSequence([...run('spades', ...ALL_RANKS.slice(1)), joker(), joker()])).toBe(false);
+    });
+
+    it('rejects mixed suits and repeated ranks', () => {
+        expect(RummyValidator.isPureSequence([card('4', 'spades'), card('5', 'hearts'), card('6', 'spades')])).toBe(false);
+        expect(RummyValidator.isPureSequence(run('spades', '4', '4', '5'))).toBe(false);
+    });
+
+    it('fills gaps with jokers and wild cards', () => {
+        const wildCard = card('9', 'clubs');
+        expect(RummyValidator.getMeldType([...run('hearts', '5', '7'), joker()], wildCard)).toBe('impure_sequence');
+        expect(RummyValidator.getMeldType([...run('hearts', '5', '8'), joker(), card('9', 'spades')], wildCard)).toBe('impure_sequence');
+        expect(RummyValidator.getMeldType([...run('hearts', 'Q', 'A'), joker()], wildCard)).toBe('impure_sequence');
+    });
+
+    it('needs a joker for every gap', () => {
+        expect(RummyValidator.getMeldType([...run('hearts', '5', '8'), joker()])).toBe('invalid');
+        expect(RummyValidator.getMeldType([...run('hearts', 'K', '2'), joker(), joker()])).toBe('invalid');
+    });
+
+    it('treats a wild card in its natural spot as part of a pure sequence', () => {
+        const wildCard = card('6', 'clubs');
+        expect(RummyValidator.getMeldType(run('hearts', '5', '6', '7'), wildCard)).toBe('pure_sequence');
+        expect(RummyValidator.getMeldType([...run('hearts', '5', '7'), joker()], wildCard)).toBe('impure_sequence');
+    });
+
+    it('accepts a group made only of jokers and wild cards, but never as pure', () => {
+        const wildCard = card('4', 'clubs');
+        expect(RummyValidator.getMeldType([joker(), joker(), joker()], wildCard)).toBe('impure_sequence');
+        expect(RummyValidator.getMeldType([card('4', 'spades'), card('4', 'hearts'), joker()], wildCard)).toBe('impure_sequence');
+        expect(RummyValidator.getMeldType([card('4', 'spades'), card('4', 'hearts'), card('4', 'diamonds')], wildCard)).toBe('impure_sequence');
+    });
+});
+
+describe('RummyValidator wild cards', () => {
+    it('makes aces wild when a printed joker is cut', () => {
+        const cut = joker();
+        expect(RummyValidator.getWildRank(cut)).toBe('A');
+        expect(RummyValidator.isWildCard(card('A', 'clubs'), cut)).toBe(true);
+        expect(RummyValidator.getMeldType([...run('hearts', '5', '7'), card('A', 'spades')], cut)).toBe('impure_sequence');
+        expect(RummyValidator.isSet([card('9', 'spades'), card('9', 'hearts'), card('A', 'hearts')], cut)).toBe(true);
+    });
+
+    it('still lets aces form a natural run with a printed joker cut', () => {
+        expect(RummyValidator.getMeldType(run('spades', 'Q', 'K', 'A'), joker())).toBe('pure_sequence');
+    });
+});
+
+describe('RummyValidator sets', () => {
+    it('accepts three or four suits of one rank, with jokers', () => {
+        expect(RummyValidator.isSet([card('8', 'spades'), card('8', 'hearts'), card('8', 'clubs')])).toBe(true);
+        expect(RummyValidator.isSet([card('8', 'spades'), card('8', 'hearts'), joker()])).toBe(true);
+    });
+
+    it('rejects repeated suits and more than four cards', () => {
+        expect(RummyValidator.isSet([card('8', 'spades'), card('8', 'spades'), card('8', 'clubs')])).toBe(false);
+        expect(RummyValidator.isSet([card('8', 'spades'), card('8', 'hearts'), card('8', 'clubs'), card('8', 'diamonds'), joker()])).toBe(false);
+    });
+});
+
+describe('RummyValidator.validateHand', () => {
+    const pure = () => run('spades', '3', '4', '5');
+    const kings = () => [card('K', 'hearts'), card('K', 'diamonds'), card('K', 'clubs')];
+    const loose = () => [card('Q', 'hearts'), card('Q', 'diamonds'), card('J', 'clubs'), card('10', 'diamonds'), card('9', 'hearts'), card('8', 'clubs'), card('2', 'diamonds')];
+
+    it('accepts a pure sequence, a second sequence and sets', () => {
+        const groups = [
+            run('spades', 'Q', 'K', 'A'),
+            [...run('hearts', '4', '6'), joker()],
+            [card('9', 'spades'), card('9', 'hearts'), card('9', 'clubs')],
+            [card('2', 'spades'), card('2', 'hearts'), card('2', 'diamonds'), card('2', 'clubs')]
+        ];
+        const result = RummyValidator.validateHand(groups.flat(), groups);
+        expect(result.isValid).toBe(true);
+        expect(result.deadwood).toEqual([]);
+        expect(result.groups.map(g => g.type)).toEqual(['pure_sequence', 'impure_sequence', 'set', 'set']);
+    });
+
+    it('requires a pure sequence and counts the whole hand without one', () => {
+        const groups = [
+            [...run('hearts', '4', '6'), joker()],
+            [...run('clubs', '7', '9'), joker()],
+            [card('9', 'spades'), card('9', 'hearts'), card('9', 'diamonds')],
+            [card('2', 'spades'), card('2', 'hearts'), card('2', 'diamonds'), card('2', 'clubs')]
+        ];
+        const hand = groups.flat();
+        const result = RummyValidator.validateHand(hand, groups);
+        expect(result.isValid).toBe(false);
+        expect(result.error).toBe('Need at least one Pure Sequence');
+        expect(result.deadwood).toHaveLength(hand.length);
+    });
+
+    it('only keeps the pure sequence safe without a second sequence', () => {
+        const [seq, set, rest] = [pure(), kings(), loose()];
+        const result = RummyValidator.validateHand([...seq, ...set, ...rest], [seq, set, rest]);
+        expect(result.error).toBe('Need a second sequence (pure or impure)');
+        expect(result.deadwood).toHaveLength(set.length + rest.length);
+    });
+
+    it('explains why a group is invalid', () => {
+        const [seq, set, rest] = [pure(), kings(), loose()];
+        const result = RummyValidator.validateHand([...seq, ...set, ...rest], [seq, set, rest]);
+        expect(result.groups[2]).toMatchObject({ type: 'invalid', error: 'Cards are neither the same suit nor the same rank' });
+    });
+
+    it('does not let a repeated group pass for a second sequence', () => {
+        const [seq, set, rest] = [pure(), kings(), loose()];
+        const hand = [...seq, ...set, ...rest];
+        const result = RummyValidator.validateHand(hand, [seq, seq, set, rest]);
+        expect(result.error).toBe('A card is used in more than one group');
+        expect(result.deadwood).toHaveLength(hand.length);
+    });
+
+    it('rejects groups that leave out cards or use cards from elsewhere', () => {
+        const [seq, set, rest] = [pure(), kings(), loose()];
+        const hand = [...seq, ...set, ...rest];
+        expect(RummyValidator.validateHand(hand, [seq, set]).error).toBe('7 card(s) are not in any group');
+        expect(RummyValidator.validateHand(hand, [seq, set, [...rest, card('5', 'clubs')]]).error)
+            .toBe('Groups contain a card that is not in your hand');
+    });
+});
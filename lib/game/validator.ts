@@ -1,11 +1,15 @@
-import { Card, Rank, MeldType } from './types';
+import { Card, Rank, MeldType, GroupResult, DeclarationResult } from './types';
 
 const RANK_VALUES: Record<Rank, number> = {
     'A': 1, '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7,
     '8': 8, '9': 9, '10': 10, 'J': 11, 'Q': 12, 'K': 13
 };
 
+const RANKS_IN_SUIT = 13;
+const HAND_SIZE = 13;
+
 export class RummyValidator {
+    // Rank order used for sequences (A low); see RummyScorer for points
     static getCardValue(rank: Rank): number {
         return RANK_VALUES[rank];
     }
@@ -22,6 +26,22 @@ export class RummyValidator {
         });
     }
 
+    // A printed joker cut as the wild card makes aces wild
+    static getWildRank(wildCard?: Card): Rank | undefined {
+        if (!wildCard) return undefined;
+        return wildCard.isJoker ? 'A' : wildCard.rank;
+    }
+
+    // Regular card promoted to a joker by the cut joker
+    static isWildCard(card: Card, wildCard?: Card): boolean {
+        return !card.isJoker && card.rank === this.getWildRank(wildCard);
+    }
+
+    // Printed jokers always count as jokers; cards matching the wild rank do too
+    static isJokerCard(card: Card, wildCard?: Card): boolean {
+        return !!card.isJoker || this.isWildCard(card, wildCard);
+    }
+
     // Check for Pure Sequence: Same Suit, Consecutive Ranks, No Jokers
     static isPureSequence(cards: Card[]): boolean {
         if (cards.length < 3) return false;
@@ -30,22 +50,28 @@ export class RummyValidator {
         const suit = cards[0].suit;
         if (cards.some(c => c.suit !== suit || c.isJoker)) return false;
 
-        // Sort by rank
-        const sorted = [...cards].sort((a, b) => this.getCardValue(a.rank) - this.getCardValue(b.rank));
-
-        // handle A-2-3 and Q-K-A cases? 
-        // Standard Rummy treats A as 1 (A-2-3) or 14 (Q-K-A). Let's stick to A=1 for simplicity first or check both
-        return this.checkConsecutive(sorted);
-        // TODO: Add support for Q-K-A wrap around if required by variant
+        // A can be low (A-2-3) or high (Q-K-A), but never both (no K-A-2 wrap)
+        return this.fitsRun(cards, 0, false) || this.fitsRun(cards, 0, true);
     }
 
-    private static checkConsecutive(sorted: Card[]): boolean {
-        for (let i = 0; i < sorted.length - 1; i++) {
-            if (this.getCardValue(sorted[i + 1].rank) - this.getCardValue(sorted[i].rank) !== 1) {
-                return false;
-            }
+    // Checks whether the real cards fit a single run once the given number of jokers
+    // are slotted into the gaps (or onto the ends). Expects one suit.
+    private static fitsRun(realCards: Card[], jokerCount: number, aceHigh: boolean): boolean {
+        const total = realCards.length + jokerCount;
+        if (total > RANKS_IN_SUIT) return false;
+
+        const values = realCards
+            .map(c => (aceHigh && c.rank === 'A') ? 14 : this.getCardValue(c.rank))
+            .sort((a, b) => a - b);
+
+        for (let i = 1; i < values.length; i++) {
+            if (values[i] === values[i - 1]) return false; // Duplicate rank
         }
-        return true;
+        if (values.length === 0) return true;
+
+        const span = values[values.length - 1] - values[0] + 1;
+        // Remaining jokers extend the ends; a run of <= 13 always fits in A-K or 2-A
+        return span - values.length <= jokerCount;
     }
 
     // Check for Set: Same Rank, Different Suits
@@ -53,7 +79,7 @@ export class RummyValidator {
         if (cards.length < 3 || cards.length > 4) return false;
 
         // Filter out jokers
-        const realCards = cards.filter(c => !c.isJoker && (!wildCard || (c.rank !== wildCard.rank)));
+        const realCards = cards.filter(c => !this.isJokerCard(c, wildCard));
 
         if (realCards.length < 2) return true; // mostly jokers/wildcards, valid
 
@@ -69,31 +95,97 @@ export class RummyValidator {
         return true;
     }
 
-    // Check for Impure Sequence: Same Suit, Consecutive (allows Jokers)
+    // Check for Impure Sequence: Same Suit, Consecutive, gaps filled by jokers or wild cards.
+    // A pure sequence also passes; callers check isPureSequence first to tell them apart.
     static isImpureSequence(cards: Card[], wildCard?: Card): boolean {
         if (cards.length < 3) return false;
 
-        // Logic is complex with jokers. Simplified check:
-        // 1. Must use at least one valid card to establish suit.
-        // 2. Count gaps, ensure jokers can fill them.
-        return true; // Placeholder for robust algorithm
+        const realCards = cards.filter(c => !this.isJokerCard(c, wildCard));
+        const jokerCount = cards.length - realCards.length;
+
+        if (realCards.some(c => c.suit !== realCards[0].suit)) return false;
+
+        return this.fitsRun(realCards, jokerCount, false) || this.fitsRun(realCards, jokerCount, true);
+    }
+
+    static getMeldType(cards: Card[], wildCard?: Card): MeldType {
+        if (this.isPureSequence(cards)) return 'pure_sequence';
+        if (this.isImpureSequence(cards, wildCard)) return 'impure_sequence';
+        if (this.isSet(cards, wildCard)) return 'set';
+        return 'invalid';
     }
 
-    static validateHand(groups: Card[][], wildCard: Card): { isValid: boolean, error?: string } {
-        let hasPure = false;
-        let hasSecondSeq = false; // Pure or Impure
+    private static describeInvalid(cards: Card[], wildCard?: Card): string {
+        if (cards.length < 3) return "A group needs at least 3 cards";
+
+        const realCards = cards.filter(c => !this.isJokerCard(c, wildCard));
+        const sameRank = realCards.every(c => c.rank === realCards[0].rank);
+        const sameSuit = realCards.every(c => c.suit === realCards[0].suit);
+
+        if (sameRank) {
+            if (cards.length > 4) return "A set can have at most 4 cards";
+            return "A set cannot repeat a suit";
+        }
+        if (sameSuit) return "Cards are not consecutive and there are not enough jokers to fill the gaps";
+        return "Cards are neither the same suit nor the same rank";
+    }
+
+    // Validates a full declaration: the groups must use every card of the hand exactly once,
+    // contain a pure sequence plus a second sequence, and every other group must be a valid meld.
+    static validateHand(hand: Card[], groups: Card[][], wildCard?: Card): DeclarationResult {
+        const handIds = new Set(hand.map(c => c.id));
+        const usedIds = new Set<string>();
+        let structureError: string | undefined;
 
-        // check each group
         for (const group of groups) {
-            if (this.isPureSequence(group)) {
-                hasPure = true;
-                if (!hasSecondSeq) hasSecondSeq = true; // Use careful logic for >=2 seqs
+            for (const card of group) {
+                if (!handIds.has(card.id)) {
+                    structureError = structureError || "Groups contain a card that is not in your hand";
+                } else if (usedIds.has(card.id)) {
+                    structureError = structureError || "A card is used in more than one group";
+                }
+                usedIds.add(card.id);
             }
-            // ... strict validation logic
         }
 
-        if (!hasPure) return { isValid: false, error: "Need at least one Pure Sequence" };
+        const ungrouped = hand.filter(c => !usedIds.has(c.id));
+        if (!structureError && ungrouped.length > 0) {
+            structureError = `${ungrouped.length} card(s) are not in any group`;
+        }
+        // Checked apart from the groups: the solver scores 14-card hands through here too
+        const sizeError = hand.length !== HAND_SIZE ? `A declaration needs exactly ${HAND_SIZE} cards` : undefined;
+
+        const results: GroupResult[] = groups.map(cards => {
+            const type = this.getMeldType(cards, wildCard);
+            return type === 'invalid'
+                ? { cards, type, error: this.describeInvalid(cards, wildCard) }
+                : { cards, type };
+        });
+
+        const pureCount = results.filter(g => g.type === 'pure_sequence').length;
+        const sequenceCount = pureCount + results.filter(g => g.type === 'impure_sequence').length;
+
+        // Sets and impure sequences only count once the two-sequence rule is met;
+        // with just a pure sequence only that sequence is safe, and with none the whole hand counts.
+        // Groups that do not use each card exactly once meld nothing, so a repeated
+        // sequence cannot pass for a second one.
+        let deadwood: Card[];
+        if (structureError || pureCount === 0) {
+            deadwood = [...hand];
+        } else if (sequenceCount < 2) {
+            const safe = new Set(results.filter(g => g.type === 'pure_sequence').flatMap(g => g.cards.map(c => c.id)));
+            deadwood = hand.filter(c => !safe.has(c.id));
+        } else {
+            const safe = new Set(results.filter(g => g.type !== 'invalid').flatMap(g => g.cards.map(c => c.id)));
+            deadwood = hand.filter(c => !safe.has(c.id));
+        }
+
+        const invalidGroup = results.find(g => g.type === 'invalid');
+        let error = structureError || sizeError;
+        if (!error && pureCount === 0) error = "Need at least one Pure Sequence";
+        if (!error && sequenceCount < 2) error = "Need a second sequence (pure or impure)";
+        if (!error && invalidGroup) error = invalidGroup.error;
 
-        return { isValid: true };
+        return { isValid: !error, error, groups: results, deadwood };
     }
 }
@@ -0,0 +1,45 @@
+import { GameState, GameView, PlayerState, PlayerView } from './types';
+
+// Builds what a single client is allowed to see of the table
+export class GameViews {
+    // Own hand in full; opponents only show how many cards they hold. The finish card
+    // lies face down, so only the declarer sees it before the reveal.
+    static forPlayer(state: GameState, playerId: string): GameView {
+        const revealed = this.isRevealed(state);
+        return {
+            ...state,
+            finishCard: revealed || state.declarerId === playerId ? state.finishCard : undefined,
+            turnRemaining: this.turnRemaining(state),
+            players: state.players.map(p => this.viewPlayer(p, revealed || p.id === playerId))
+        };
+    }
+
+    // Spectators see the table but no hands at all
+    static forSpectator(state: GameState): GameView {
+        const revealed = this.isRevealed(state);
+        return {
+            ...state,
+            finishCard: revealed ? state.finishCard : undefined,
+            turnRemaining: this.turnRemaining(state),
+            players: state.players.map(p => this.viewPlayer(p, revealed))
+        };
+    }
+
+    // Clients count down from this rather than the deadline, which is in server time
+    private static turnRemaining(state: GameState): number | undefined {
+        return state.turnDeadline === undefined ? undefined : Math.max(0, state.turnDeadline - Date.now());
+    }
+
+    // Once the deal is scored every hand is turned face up
+    private static isRevealed(state: GameState): boolean {
+        return state.status === 'deal-ended' || state.status === 'ended';
+    }
+
+    private static viewPlayer(player: PlayerState, showHand: boolean): PlayerView {
+        return {
+            ...player,
+            hand: showHand ? player.hand : [],
+            cardCount: player.hand.length
+        };
+    }
+}
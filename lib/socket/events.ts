@@ -0,0 +1,70 @@
+import { DeclarationResult, DealFairness, GameView, GroupingSuggestion, PlayerScore, Standing } from '../game/types';
+import { ClientEventName, ClientPayload } from './schemas';
+
+export type ErrorCode =
+    | 'INVALID_PAYLOAD'
+    | 'ROOM_NOT_FOUND'
+    | 'ROOM_FULL'
+    | 'GAME_ALREADY_STARTED'
+    | 'NOT_IN_ROOM'
+    | 'NOT_YOUR_TURN'
+    | 'INVALID_STATE'
+    | 'INVALID_MOVE'
+    | 'CONFLICT'
+    | 'INSUFFICIENT_COINS'
+    | 'UNAVAILABLE'
+    | 'UNAUTHORIZED'
+    | 'USERNAME_TAKEN'
+    | 'NOT_FOUND'
+    | 'INTERNAL';
+
+export type AckFailure = { ok: false; code: ErrorCode; message: string };
+export type Ack<T extends object = object> = ({ ok: true } & T) | AckFailure;
+
+// Data sent back with a successful ack, for the events that return any
+interface AckData {
+    'create-room': { roomId: string };
+    'suggest-grouping': { suggestion: GroupingSuggestion };
+}
+
+export type AckResult<E extends ClientEventName> = E extends keyof AckData ? AckData[E] : object;
+export type AckFor<E extends ClientEventName> = Ack<AckResult<E>>;
+
+export type ClientToServerEvents = {
+    [E in ClientEventName]: (payload: ClientPayload<E>, ack?: (response: AckFor<E>) => void) => void;
+};
+
+export interface GameEndedPayload {
+    winnerId?: string;
+    reason: string;
+    scores?: PlayerScore[];
+    matchOver?: boolean;
+    fairness?: DealFairness; // With the server seed revealed
+}
+
+export interface MatchEndedPayload {
+    winnerId?: string;
+    reason: string;
+    standings: Standing[];
+}
+
+export interface ServerToClientEvents {
+    // Sent on connect; a guest stores the token and presents it on reconnect
+    'session': (data: { sessionToken?: string; playerId: string; name: string; loggedIn: boolean }) => void;
+    'player-joined': (state: GameView) => void;
+    'game-started': (state: GameView) => void;
+    'game-update': (state: GameView) => void;
+    'player-left': (data: { playerId: string; name?: string; gameState: GameView }) => void;
+    // Sent to everyone waiting whenever a queue changes; position is 1-based
+    'queue-update': (data: { gameSize: number; position: number; size: number }) => void;
+    'queue-timeout': (data: { gameSize: number }) => void;
+    'game-ended': (data: GameEndedPayload) => void;
+    'match-ended': (data: MatchEndedPayload) => void;
+    'declaration-result': (result: DeclarationResult) => void;
+    'declaration-invalid': (data: { playerId: string; name: string; error?: string }) => void;
+    'player-dropped': (data: { playerId: string; name: string; penalty: number }) => void;
+    'deck-reshuffled': (data: { reshuffleCount: number; deckCount: number }) => void;
+    'turn-timeout': (data: { playerId: string; name: string; timeouts: number; dropped: boolean }) => void;
+    // Fallback for actions sent without an ack callback
+    'error': (message: string) => void;
+}
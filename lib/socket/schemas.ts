@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+// Runtime shape of every client -> server payload. The server parses each one
+// before it reaches RoomManager; the event types are inferred from these.
+// Names are never sent: they come from the login (or guest session) of the socket.
+
+const roomId = z.string().trim().min(1).max(16);
+const cardId = z.string().min(1).max(64);
+const cardGroups = z.array(z.array(cardId).max(14)).max(14);
+
+export const clientSchemas = {
+    'create-room': z.object({
+        maxPlayers: z.number().int().min(2).max(6).optional(),
+        maxReshuffles: z.number().int().min(0).max(10).optional(),
+        variant: z.enum(['points', 'pool', 'deals']).optional(),
+        poolLimit: z.union([z.literal(101), z.literal(201)]).optional(),
+        dealCount: z.union([z.literal(2), z.literal(3), z.literal(6)]).optional(),
+        turnSeconds: z.number().int().min(10).max(120).optional(),
+        timeBankSeconds: z.number().int().min(0).max(300).optional(),
+        entryFee: z.number().int().min(0).max(100000).optional()
+    }),
+    'join-queue': z.object({ gameSize: z.number().int().min(2).max(6) }),
+    'leave-queue': z.object({}),
+    'join-room': z.object({ roomId }),
+    'spectate-room': z.object({ roomId }),
+    'leave-room': z.object({ roomId }),
+    'start-game': z.object({ roomId }),
+    'add-bot': z.object({ roomId, level: z.enum(['easy', 'medium', 'hard']) }),
+    'client-seed': z.object({ roomId, clientSeed: z.string().trim().min(1).max(64) }),
+    'draw-card': z.object({ roomId, fromDiscard: z.boolean() }),
+    'discard-card': z.object({ roomId, cardId }),
+    'rearrange-hand': z.object({ roomId, newOrderIds: z.array(cardId).max(14) }),
+    'drop': z.object({ roomId }),
+    'split-respond': z.object({ roomId, accept: z.boolean() }),
+    'declare': z.object({ roomId, cardId, groups: cardGroups }),
+    'submit-groups': z.object({ roomId, groups: cardGroups }),
+    'suggest-grouping': z.object({ roomId })
+};
+
+export type ClientEventName = keyof typeof clientSchemas;
+export type ClientPayload<E extends ClientEventName> = z.infer<typeof clientSchemas[E]>;
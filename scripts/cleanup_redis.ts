@@ -16,7 +16,7 @@ async function main() {
     console.log('Starting Redis cleanup...');
 
     try {
-        const patterns = ['room:*', 'queue:*', 'queue_ref:*', 'socket:*'];
+        const patterns = ['room:*', 'log:*', 'room_timers', 'queue:*', 'queue_ref:*', 'socket:*', 'player_room:*'];
         let deletedCount = 0;
 
         for (const pattern of patterns) {
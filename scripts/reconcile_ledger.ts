@@ -0,0 +1,37 @@
+import { config } from 'dotenv';
+config();
+
+import mongoose from 'mongoose';
+import { connectDB, User } from '../lib/db';
+import { Wallet } from '../socket/wallet';
+
+// Checks the cached coin balances against the ledger:
+//   npx ts-node scripts/reconcile_ledger.ts [--fix]
+// With --fix every mismatched balance is reset to what the ledger says.
+async function main() {
+    const fix = process.argv.includes('--fix');
+    await connectDB();
+    if (mongoose.connection.readyState !== 1) throw new Error('Could not connect to MongoDB');
+
+    const report = await Wallet.reconcile();
+    console.log(`Ledger total: ${report.total}${report.total === 0 ? ' (balanced)' : ' - rows are missing!'}`);
+
+    for (const pot of report.openPots) {
+        console.log(`Match ${pot.matchId} still holds ${pot.balance} coins`);
+    }
+
+    for (const m of report.mismatched) {
+        console.log(`Player ${m.playerId}: ${m.coins} coins cached, ${m.ledger} in the ledger${fix ? ' - fixed' : ''}`);
+        if (fix) await User.updateOne({ playerId: m.playerId }, { $set: { coins: m.ledger } });
+    }
+
+    const clean = report.total === 0 && (report.mismatched.length === 0 || fix);
+    console.log(clean ? 'Balances match the ledger.' : 'Balances do not match the ledger.');
+    await mongoose.disconnect();
+    process.exit(clean ? 0 : 2);
+}
+
+main().catch(err => {
+    console.error(err);
+    process.exit(1);
+});
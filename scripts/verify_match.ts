@@ -0,0 +1,41 @@
+import { FairShuffle } from '../lib/game/fairness';
+import { GameLogEntry } from '../lib/game/types';
+
+// Checks every deal of a finished match against its commit-reveal record:
+//   npx ts-node scripts/verify_match.ts <matchId> [serverUrl]
+async function main() {
+    const [matchId, serverUrl = 'http://localhost:3000'] = process.argv.slice(2);
+    if (!matchId) {
+        console.error('Usage: verify_match.ts <matchId> [serverUrl]');
+        process.exit(1);
+    }
+
+    const res = await fetch(`${serverUrl}/api/matches/${matchId}/log`);
+    if (!res.ok) throw new Error(`Could not fetch the log: ${res.status} ${await res.text()}`);
+    const { entries } = await res.json() as { entries: GameLogEntry[] };
+
+    let published: string | undefined;
+    let allFair = true;
+    for (const entry of entries) {
+        if (entry.type === 'create') published = entry.seedCommitment;
+        if (entry.type !== 'deal') continue;
+
+        const end = entries.find((e): e is Extract<GameLogEntry, { type: 'deal-end' }> => e.type === 'deal-end' && e.seq > entry.seq);
+        const fairness = { ...entry.fairness, serverSeed: end?.serverSeed };
+        // The commitment used must be the one published before the players' seeds were in
+        const committedEarly = fairness.commitment === published;
+        const fair = committedEarly && FairShuffle.verify(fairness, entry.deck);
+        allFair = allFair && fair;
+        console.log(`Deal ${entry.dealNumber}: ${fair ? 'OK' : 'FAILED'}${committedEarly ? '' : ' (commitment was not published in advance)'}`);
+
+        published = end?.nextCommitment;
+    }
+
+    console.log(allFair ? 'Every deal matches its seeds.' : 'Some deals do not match their seeds!');
+    process.exit(allFair ? 0 : 2);
+}
+
+main().catch(err => {
+    console.error(err);
+    process.exit(1);
+});
@@ -1,79 +1,233 @@
 import { config } from 'dotenv';
 config();
 
-import express from "express";
+import express, { Response } from "express";
+import { randomBytes } from "crypto";
 import { Server } from "socket.io";
 import { createServer } from "http";
 import { RoomManager } from "./socket/roomManager";
+import { createRoomStore } from "./socket/store";
+import { attachAdapter } from "./socket/adapter";
+import { GameError } from "./socket/errors";
+import { GameServer } from "./socket/types";
+import { createSessionMiddleware } from "./socket/sessions";
+import { credentialsSchema, loginUser, registerUser, signToken } from "./socket/auth";
+import { leaderboardQuerySchema, PlayerStats } from "./socket/stats";
+import { clientSchemas, ClientEventName, ClientPayload } from "./lib/socket/schemas";
+import { AckFor, AckResult, ErrorCode } from "./lib/socket/events";
+import { GameReplay } from "./lib/game/replay";
 import { connectDB } from "./lib/db";
 import cors from "cors";
 
+const HTTP_STATUS: Partial<Record<ErrorCode, number>> = {
+    ROOM_NOT_FOUND: 404,
+    NOT_FOUND: 404,
+    UNAUTHORIZED: 401,
+    USERNAME_TAKEN: 409,
+    UNAVAILABLE: 503
+};
+
+// Maps errors thrown by the room manager onto HTTP responses
+const sendError = (res: Response, err: unknown) => {
+    if (err instanceof GameError) {
+        res.status(HTTP_STATUS[err.code] ?? 400).json({ code: err.code, message: err.message });
+    } else {
+        console.error("Request failed:", err);
+        res.status(500).json({ code: "INTERNAL", message: "Something went wrong" });
+    }
+};
+
 const hostname = "0.0.0.0"; // Bind to all interfaces for Render
 const port = parseInt(process.env.PORT || "3000", 10);
 
+// Signs login tokens. A random one in development logs everybody out on restart.
+const authSecret = (): string => {
+    const secret = process.env.AUTH_SECRET;
+    if (secret) return secret;
+    if (process.env.NODE_ENV === 'production') throw new Error("AUTH_SECRET must be set in production.");
+    console.warn("⚠️ AUTH_SECRET is missing, using a random one.");
+    return randomBytes(32).toString("hex");
+};
+
 const startServer = async () => {
     // Connect to MongoDB
     await connectDB();
 
+    const secret = authSecret();
     const app = express();
     app.use(cors());
+    app.use(express.json());
 
     // Health check endpoint for Render
     app.get("/", (req, res) => {
         res.send("Rummy Socket Server Running");
     });
 
+    // ?sort=rating|wins|winrate|coins&period=daily|weekly|all&page=1&limit=20
+    app.get("/api/leaderboard", async (req, res) => {
+        const parsed = leaderboardQuerySchema.safeParse(req.query);
+        if (!parsed.success) {
+            const issue = parsed.error.issues[0];
+            res.status(400).json({ code: "INVALID_PAYLOAD", message: `${issue.path.join(".")} - ${issue.message}` });
+            return;
+        }
+        try {
+            res.json({ ...await PlayerStats.leaderboard(parsed.data), page: parsed.data.page, limit: parsed.data.limit });
+        } catch (err) {
+            sendError(res, err);
+        }
+    });
+
+    app.get("/api/players/:username", async (req, res) => {
+        try {
+            res.json(await PlayerStats.profile(req.params.username));
+        } catch (err) {
+            sendError(res, err);
+        }
+    });
+
     const httpServer = createServer(app);
 
-    const io = new Server(httpServer, {
+    const io: GameServer = new Server(httpServer, {
         cors: {
             origin: "*", // Allow all connections (frontend needs to connect)
             methods: ["GET", "POST"]
         }
     });
 
-    const roomManager = new RoomManager(io);
-
-    io.on("connection", (socket) => {
-        console.log("Client connected:", socket.id);
-
-        socket.on("create-room", async ({ playerName, maxPlayers }, callback) => {
-            const roomId = await roomManager.createRoom(maxPlayers);
-            await roomManager.joinRoom(socket, roomId, playerName);
-            if (callback) callback(roomId);
-        });
-
-        socket.on("join-queue", async ({ playerName, gameSize }) => {
-            await roomManager.joinQueue(socket, playerName, gameSize);
-        });
-
-        socket.on("join-room", async ({ roomId, playerName }) => {
-            await roomManager.joinRoom(socket, roomId, playerName);
-        });
-
-        socket.on("start-game", async (roomId) => {
-            await roomManager.startGame(roomId);
-        });
+    attachAdapter(io);
 
-        socket.on("draw-card", async ({ roomId, fromDiscard }) => {
-            await roomManager.drawCard(socket, roomId, fromDiscard);
-        });
-
-        socket.on("discard-card", async ({ roomId, cardId }) => {
-            await roomManager.discardCard(socket, roomId, cardId);
-        });
+    const store = createRoomStore();
+    const roomManager = new RoomManager(io, store, {
+        botFillSeconds: parseInt(process.env.QUEUE_BOT_FILL_SECONDS || "60", 10),
+        rakePercent: parseFloat(process.env.RAKE_PERCENT || "5")
+    });
+    roomManager.startTimers();
+
+    io.use(createSessionMiddleware(store, {
+        authSecret: secret,
+        requireLogin: process.env.REQUIRE_LOGIN === "true"
+    }));
+
+    // Accounts: both answer with a token to pass as auth.token in the socket handshake
+    const authRoute = (action: typeof loginUser) => async (req: express.Request, res: Response) => {
+        const parsed = credentialsSchema.safeParse(req.body);
+        if (!parsed.success) {
+            const issue = parsed.error.issues[0];
+            res.status(400).json({ code: "INVALID_PAYLOAD", message: `${issue.path.join(".") || "body"} - ${issue.message}` });
+            return;
+        }
+        try {
+            const identity = await action(parsed.data.username, parsed.data.password);
+            res.json({ token: signToken(identity, secret), ...identity });
+        } catch (err) {
+            sendError(res, err);
+        }
+    };
+    app.post("/api/auth/register", authRoute(registerUser));
+    app.post("/api/auth/login", authRoute(loginUser));
+
+    // Finished matches are kept as their action log and can be replayed from it
+    app.get("/api/matches/:matchId/log", async (req, res) => {
+        try {
+            res.json({ entries: await roomManager.getMatchLog(req.params.matchId) });
+        } catch (err) {
+            sendError(res, err);
+        }
+    });
 
-        socket.on("rearrange-hand", async ({ roomId, newOrderIds }) => {
-            await roomManager.rearrangeHand(socket, roomId, newOrderIds);
-        });
+    // Table as it stood after entry ?seq=N, or at the end of the match without it
+    app.get("/api/matches/:matchId/replay", async (req, res) => {
+        try {
+            const log = await roomManager.getMatchLog(req.params.matchId);
+            const seq = req.query.seq === undefined ? undefined : Number(req.query.seq);
+            if (seq !== undefined && !Number.isInteger(seq)) {
+                res.status(400).json({ code: "INVALID_PAYLOAD", message: "seq must be an integer" });
+                return;
+            }
+            res.json({ state: GameReplay.replay(log, seq) });
+        } catch (err) {
+            sendError(res, err);
+        }
+    });
 
-        socket.on("debug-win", async (roomId) => {
-            await roomManager.debugWin(socket, roomId);
-        });
+    io.on("connection", (socket) => {
+        console.log("Client connected:", socket.id, "player", socket.data.playerId);
+        const { sessionToken, playerId, name, username } = socket.data;
+        socket.emit("session", { sessionToken, playerId, name, loggedIn: !!username });
+        roomManager.connect(socket).catch(err => console.error("Failed to restore session:", err));
+
+        // Builds the listener for one event: validates the payload, runs the action and
+        // acks how it went. Clients that send no ack callback get failures as an 'error'
+        // event instead. The listener is typed as the protocol says, but nothing a client
+        // sends is trusted: the payload is parsed again and the ack may be anything.
+        const handle = <E extends ClientEventName>(event: E, action: (payload: ClientPayload<E>) => Promise<AckResult<E> | void>) =>
+            async (raw: ClientPayload<E>, ack?: (response: AckFor<E>) => void) => {
+                const reply = typeof ack === "function" ? ack : undefined;
+                const fail = (code: ErrorCode, message: string) => {
+                    if (reply) reply({ ok: false, code, message });
+                    else socket.emit("error", message);
+                };
+
+                const parsed = clientSchemas[event].safeParse(raw);
+                if (!parsed.success) {
+                    const issue = parsed.error.issues[0];
+                    fail("INVALID_PAYLOAD", `Invalid ${event} request: ${issue.path.join(".") || "payload"} - ${issue.message}`);
+                    return;
+                }
+
+                try {
+                    // Events without ack data resolve to nothing, which spreads to nothing
+                    const result = await action(parsed.data as ClientPayload<E>);
+                    reply?.({ ok: true, ...result as AckResult<E> });
+                } catch (err) {
+                    if (err instanceof GameError) {
+                        fail(err.code, err.message);
+                    } else {
+                        console.error(`Unhandled error in ${event}:`, err);
+                        fail("INTERNAL", "Something went wrong");
+                    }
+                }
+            };
+
+        socket.on("create-room", handle("create-room", async ({ maxPlayers, ...options }) => {
+            // Coins belong to accounts, so guests only open free tables
+            if (options.entryFee && !socket.data.username) {
+                throw new GameError("UNAUTHORIZED", "Log in to play at a table with an entry fee");
+            }
+            const roomId = await roomManager.createRoom(maxPlayers, options);
+            await roomManager.joinRoom(socket, roomId);
+            return { roomId };
+        }));
+
+        socket.on("join-queue", handle("join-queue", ({ gameSize }) => roomManager.joinQueue(socket, gameSize)));
+        socket.on("leave-queue", handle("leave-queue", () => roomManager.leaveQueue(socket.data.playerId)));
+        socket.on("join-room", handle("join-room", ({ roomId }) => roomManager.joinRoom(socket, roomId)));
+        socket.on("spectate-room", handle("spectate-room", ({ roomId }) => roomManager.spectateRoom(socket, roomId)));
+        socket.on("leave-room", handle("leave-room", ({ roomId }) => roomManager.leaveRoom(socket, roomId)));
+        socket.on("start-game", handle("start-game", ({ roomId }) => roomManager.startGame(socket.data.playerId, roomId)));
+        socket.on("add-bot", handle("add-bot", ({ roomId, level }) => roomManager.addBot(socket.data.playerId, roomId, level)));
+        socket.on("client-seed", handle("client-seed", ({ roomId, clientSeed }) => roomManager.setClientSeed(socket.data.playerId, roomId, clientSeed)));
+        socket.on("draw-card", handle("draw-card", ({ roomId, fromDiscard }) => roomManager.drawCard(socket.data.playerId, roomId, fromDiscard)));
+        socket.on("discard-card", handle("discard-card", ({ roomId, cardId }) => roomManager.discardCard(socket.data.playerId, roomId, cardId)));
+        socket.on("rearrange-hand", handle("rearrange-hand", ({ roomId, newOrderIds }) => roomManager.rearrangeHand(socket.data.playerId, roomId, newOrderIds)));
+        socket.on("drop", handle("drop", ({ roomId }) => roomManager.dropPlayer(socket.data.playerId, roomId)));
+        socket.on("split-respond", handle("split-respond", ({ roomId, accept }) => roomManager.respondToSplit(socket.data.playerId, roomId, accept)));
+        socket.on("declare", handle("declare", ({ roomId, cardId, groups }) => roomManager.declare(socket.data.playerId, roomId, cardId, groups)));
+        socket.on("submit-groups", handle("submit-groups", ({ roomId, groups }) => roomManager.submitGroups(socket.data.playerId, roomId, groups)));
+
+        socket.on("suggest-grouping", handle("suggest-grouping", async ({ roomId }) => {
+            const suggestion = await roomManager.suggestGrouping(socket.data.playerId, roomId);
+            return { suggestion };
+        }));
 
         socket.on("disconnect", async () => {
             console.log("Client disconnected:", socket.id);
-            await roomManager.handleDisconnect(socket);
+            try {
+                await roomManager.handleDisconnect(socket);
+            } catch (err) {
+                console.error("Failed to clean up after disconnect:", err);
+            }
         });
     });
 
@@ -0,0 +1,23 @@
+import Redis from 'ioredis';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { GameServer } from './types';
+
+// On its own socket.io only knows the sockets of this instance. With the Redis
+// adapter, broadcasts, fetchSockets and socketsJoin reach every instance, which
+// matchmaking needs to see and seat players connected elsewhere.
+// REDIS_ADAPTER_URL picks the Redis for it (Upstash's REST API has no pub/sub, so
+// use its redis:// endpoint); the ioredis room store's REDIS_URL is used otherwise.
+export const attachAdapter = (io: GameServer) => {
+    const url = process.env.REDIS_ADAPTER_URL
+        || (process.env.ROOM_STORE === 'ioredis' ? process.env.REDIS_URL || 'redis://localhost:6379' : undefined);
+
+    if (!url) {
+        console.log("Socket adapter: in-memory (single instance only)");
+        return;
+    }
+
+    const pubClient = new Redis(url);
+    const subClient = pubClient.duplicate();
+    io.adapter(createAdapter(pubClient, subClient));
+    console.log("Socket adapter: Redis");
+};
@@ -0,0 +1,94 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { User } from '../lib/db';
+import { GameError } from './errors';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+const TOKEN_TTL = 7 * 86400;
+
+// Who a signed token says the player is
+export interface AuthIdentity {
+    playerId: string;
+    username: string;
+}
+
+export const credentialsSchema = z.object({
+    username: z.string().trim().min(3).max(24).regex(/^[A-Za-z0-9_]+$/, 'Only letters, digits and underscores'),
+    password: z.string().min(8).max(128)
+});
+
+// Stored as scrypt$<salt>$<key>, both base64url
+export const hashPassword = async (password: string): Promise<string> => {
+    const salt = randomBytes(16);
+    const key = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('base64url')}$${key.toString('base64url')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+    const [scheme, salt, key] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !key) return false;
+    const expected = Buffer.from(key, 'base64url');
+    const actual = await scryptAsync(password, Buffer.from(salt, 'base64url'), expected.length);
+    return timingSafeEqual(actual, expected);
+};
+
+// <payload>.<HMAC-SHA256 of the payload>, both base64url
+export const signToken = (identity: AuthIdentity, secret: string): string => {
+    const payload = Buffer.from(JSON.stringify({
+        sub: identity.playerId,
+        name: identity.username,
+        exp: Math.floor(Date.now() / 1000) + TOKEN_TTL
+    })).toString('base64url');
+    return `${payload}.${createHmac('sha256', secret).update(payload).digest('base64url')}`;
+};
+
+export const verifyToken = (token: string, secret: string): AuthIdentity | null => {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = createHmac('sha256', secret).update(payload).digest();
+    const given = Buffer.from(signature, 'base64url');
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+    try {
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+        if (typeof claims.sub !== 'string' || typeof claims.name !== 'string') return null;
+        if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) return null;
+        return { playerId: claims.sub, username: claims.name };
+    } catch {
+        return null;
+    }
+};
+
+const requireDatabase = () => {
+    if (mongoose.connection.readyState !== 1) {
+        throw new GameError('UNAVAILABLE', 'Accounts are unavailable right now, try again later');
+    }
+};
+
+export const registerUser = async (username: string, password: string): Promise<AuthIdentity> => {
+    requireDatabase();
+    const playerId = uuidv4();
+    try {
+        await User.create({ username, playerId, name: username, passwordHash: await hashPassword(password) });
+    } catch (err) {
+        if ((err as { code?: number }).code === 11000) throw new GameError('USERNAME_TAKEN', 'That username is taken');
+        throw err;
+    }
+    return { playerId, username };
+};
+
+// Unknown names cost a hash too, so response times do not tell which accounts exist
+const DECOY_HASH = `scrypt$${randomBytes(16).toString('base64url')}$${randomBytes(KEY_LENGTH).toString('base64url')}`;
+
+export const loginUser = async (username: string, password: string): Promise<AuthIdentity> => {
+    requireDatabase();
+    const user = await User.findOne({ username });
+    const valid = await verifyPassword(password, user?.passwordHash ?? DECOY_HASH);
+    if (!user || !valid) throw new GameError('UNAUTHORIZED', 'Wrong username or password');
+    return { playerId: user.playerId, username: user.username };
+};
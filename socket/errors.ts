@@ -0,0 +1,12 @@
+import { ErrorCode } from '../lib/socket/events';
+
+// A rejected player action; server.ts turns it into a failed ack
+export class GameError extends Error {
+    code: ErrorCode;
+
+    constructor(code: ErrorCode, message: string) {
+        super(message);
+        this.name = 'GameError';
+        this.code = code;
+    }
+}
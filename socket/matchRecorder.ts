@@ -0,0 +1,126 @@
+import mongoose from 'mongoose';
+import { MatchResult } from '../lib/game/types';
+import { DEFAULT_RATING, EloRating } from '../lib/game/rating';
+import { connectDB, Match, User } from '../lib/db';
+import { RoomStore } from './store';
+import { Wallet } from './wallet';
+
+const RETRY_MS = 30000;
+
+// Writes finished matches to MongoDB. Every result is buffered in the room store
+// first and only dropped from there once the write is committed, so games go on
+// while the database is down and nothing is lost if this server stops meanwhile.
+export class MatchRecorder {
+    private store: RoomStore;
+    private retryTimer?: NodeJS.Timeout;
+    private flushing = false;
+
+    constructor(store: RoomStore) {
+        this.store = store;
+    }
+
+    start() {
+        this.retryTimer = setInterval(() => {
+            this.flush().catch(err => console.error('Retrying match results failed:', err));
+        }, RETRY_MS);
+    }
+
+    stop() {
+        clearInterval(this.retryTimer);
+    }
+
+    async record(result: MatchResult) {
+        await this.store.bufferMatchResult(result);
+        try {
+            await this.write(result);
+            await this.store.deleteBufferedMatchResult(result.matchId);
+        } catch (err) {
+            console.warn(`Match ${result.matchId} buffered, MongoDB write failed:`, err instanceof Error ? err.message : err);
+        }
+    }
+
+    // Retries everything still buffered, reconnecting first if the database went away
+    async flush() {
+        if (this.flushing) return;
+        this.flushing = true;
+        try {
+            const pending = await this.store.getBufferedMatchResults();
+            if (pending.length === 0) return;
+            if (mongoose.connection.readyState === 0) await connectDB();
+
+            for (const result of pending) {
+                try {
+                    await this.write(result);
+                    await this.store.deleteBufferedMatchResult(result.matchId);
+                } catch (err) {
+                    console.warn(`Match ${result.matchId} still buffered:`, err instanceof Error ? err.message : err);
+                    break;
+                }
+            }
+        } finally {
+            this.flushing = false;
+        }
+    }
+
+    // The match, every person's counters and rating, and the payout of the pot go
+    // in one transaction. A match that is already stored means an earlier attempt
+    // committed, so the retry is done.
+    private async write(result: MatchResult) {
+        if (mongoose.connection.readyState !== 1) throw new Error('MongoDB is not connected');
+
+        const session = await mongoose.startSession();
+        try {
+            await session.withTransaction(async () => {
+                const pot = result.entryFee ? await Wallet.settle(session, result) : 0;
+
+                // Only people are rated; bots just take up places
+                const people = result.players.filter(p => !p.bot);
+                const users: { playerId: string, rating?: number }[] = await User.find({ playerId: { $in: people.map(p => p.playerId) } }, { playerId: 1, rating: 1 }).session(session).lean();
+                const ratings = new Map(users.map(u => [u.playerId, u.rating ?? DEFAULT_RATING]));
+                const ratingOf = (playerId: string) => ratings.get(playerId) ?? DEFAULT_RATING;
+                const changes = EloRating.changes(people.map(p => ({ playerId: p.playerId, rating: ratingOf(p.playerId), place: p.place })));
+
+                await Match.create([{
+                    matchId: result.matchId,
+                    roomId: result.roomId,
+                    variant: result.variant,
+                    winnerId: result.winnerId,
+                    reason: result.reason,
+                    players: result.players.map(p => p.bot ? p : { ...p, rating: ratingOf(p.playerId), ratingChange: changes[p.playerId] }),
+                    deals: result.deals,
+                    startedAt: new Date(result.startedAt),
+                    endedAt: new Date(result.endedAt),
+                    durationMs: result.endedAt - result.startedAt,
+                    entryFee: result.entryFee,
+                    pot
+                }], { session });
+
+                if (people.length === 0) return;
+                // Wins against bots are easy to farm, so they are counted apart from the
+                // ones the leaderboards rank
+                const withBots = people.length < result.players.length;
+                const [played, won] = withBots ? ['botMatchesPlayed', 'botMatchesWon'] : ['matchesPlayed', 'matchesWon'];
+                await User.bulkWrite(people.map(p => ({
+                    updateOne: {
+                        filter: { playerId: p.playerId },
+                        update: {
+                            $set: { name: p.name, rating: ratingOf(p.playerId) + changes[p.playerId] },
+                            $inc: { [played]: 1, [won]: p.playerId === result.winnerId ? 1 : 0 }
+                        },
+                        upsert: true
+                    }
+                })), { session });
+            });
+        } catch (err) {
+            if (this.isDuplicateMatch(err)) return;
+            throw err;
+        } finally {
+            await session.endSession();
+        }
+    }
+
+    private isDuplicateMatch(err: unknown): boolean {
+        const mongoErr = err as { code?: number, keyPattern?: Record<string, unknown> };
+        return mongoErr?.code === 11000 && !!mongoErr.keyPattern?.matchId;
+    }
+}
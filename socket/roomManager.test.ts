@@ -0,0 +1,226 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GameState } from '../lib/game/types';
+import { GameReplay } from '../lib/game/replay';
+import { RoomManager } from './roomManager';
+import { MemoryRoomStore } from './store';
+import { GameServer, GameSocket } from './types';
+
+// Stands in for socket.io: every emit is kept so tests can look at what went out
+const fakeServer = () => {
+    const emitted: { event: string, data: unknown }[] = [];
+    const operator = {
+        emit: (event: string, data: unknown) => { emitted.push({ event, data }); },
+        except: () => operator,
+        socketsJoin: () => undefined,
+        socketsLeave: () => undefined,
+        fetchSockets: async () => [{}]
+    };
+    const io = { to: () => operator, in: () => operator };
+    return { io: io as unknown as GameServer, emitted };
+};
+
+const fakeSocket = (playerId: string) => ({
+    id: `socket-${playerId}`,
+    data: { playerId, sessionToken: `token-${playerId}`, name: playerId },
+    join: vi.fn(),
+    leave: vi.fn(),
+    emit: vi.fn()
+}) as unknown as GameSocket;
+
+const setup = async (players: string[]) => {
+    const store = new MemoryRoomStore();
+    const { io, emitted } = fakeServer();
+    const manager = new RoomManager(io, store);
+    const roomId = await manager.createRoom(players.length);
+    for (const playerId of players) await manager.joinRoom(fakeSocket(playerId), roomId);
+    return { store, manager, roomId, emitted };
+};
+
+describe('RoomManager.startGame', () => {
+    it('deals when a seated player starts', async () => {
+        const { store, manager, roomId } = await setup(['alice', 'bob']);
+        await manager.startGame('alice', roomId);
+        const room = await store.getRoom(roomId);
+        expect(room?.gameState.status).toBe('playing');
+        expect(room?.players.every(p => p.hand.length === 13)).toBe(true);
+    });
+
+    it('does not let a spectator or a stranger start the game', async () => {
+        const { store, manager, roomId } = await setup(['alice', 'bob']);
+        await manager.spectateRoom(fakeSocket('carol'), roomId);
+
+        await expect(manager.startGame('carol', roomId)).rejects.toMatchObject({ code: 'NOT_IN_ROOM' });
+        await expect(manager.startGame('mallory', roomId)).rejects.toMatchObject({ code: 'NOT_IN_ROOM' });
+        expect((await store.getRoom(roomId))?.gameState.status).toBe('waiting');
+    });
+});
+
+describe('RoomManager.leaveRoom', () => {
+    it('frees the seat before the game starts', async () => {
+        const { store, manager, roomId } = await setup(['alice', 'bob']);
+        await manager.leaveRoom(fakeSocket('bob'), roomId);
+
+        expect((await store.getRoom(roomId))?.players.map(p => p.id)).toEqual(['alice']);
+        expect(await store.getPlayerRoom('bob')).toBeNull();
+    });
+
+    it('takes a player out of a deal for good, so reconnecting does not seat them again', async () => {
+        const { store, manager, roomId } = await setup(['alice', 'bob', 'carol']);
+        await manager.startGame('alice', roomId);
+        const leaver = (await store.getRoom(roomId))!.gameState.currentTurnPlayerId;
+
+        await manager.leaveRoom(fakeSocket(leaver), roomId);
+        const socket = fakeSocket(leaver);
+        await manager.connect(socket);
+
+        const room = await store.getRoom(roomId);
+        expect(room?.players.map(p => p.id)).not.toContain(leaver);
+        expect(room?.gameState.currentTurnPlayerId).not.toBe(leaver);
+        expect(socket.emit).not.toHaveBeenCalledWith('player-joined', expect.anything());
+    });
+
+    it('hands a two-player deal to the opponent', async () => {
+        const { store, manager, roomId } = await setup(['alice', 'bob']);
+        await manager.startGame('alice', roomId);
+        await manager.leaveRoom(fakeSocket('alice'), roomId);
+
+        const state = (await store.getRoom(roomId))?.gameState;
+        expect(state?.status).toBe('ended');
+        expect(state?.winner).toBe('bob');
+    });
+});
+
+describe('turn timer', () => {
+    it('only announces a timeout once it is saved, and retries one that failed', async () => {
+        vi.useFakeTimers();
+        const { store, manager, roomId, emitted } = await setup(['alice', 'bob', 'carol']);
+        try {
+            manager.startTimers();
+            await manager.startGame('alice', roomId);
+            const deadline = (await store.getRoom(roomId))!.gameState.turnDeadline!;
+
+            // Another server wrote the room first
+            vi.spyOn(store, 'saveRoom').mockResolvedValueOnce(false);
+            await vi.advanceTimersByTimeAsync(deadline - Date.now() + 500);
+            expect(emitted.some(e => e.event === 'turn-timeout')).toBe(false);
+            expect((await store.getRoom(roomId))?.players[0].timeouts).toBe(0);
+
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(emitted.filter(e => e.event === 'turn-timeout')).toHaveLength(1);
+            expect((await store.getRoom(roomId))?.players[0].timeouts).toBe(1);
+        } finally {
+            manager.stopTimers();
+            vi.useRealTimers();
+        }
+    });
+
+    it('keeps a claimed timer until its lease runs out', async () => {
+        const store = new MemoryRoomStore();
+        await store.setRoomTimer('ROOM01', 1000);
+
+        expect(await store.claimDueTimers(2000, 5000)).toEqual(['ROOM01']);
+        expect(await store.claimDueTimers(3000, 6000)).toEqual([]);
+        expect(await store.claimDueTimers(5000, 8000)).toEqual(['ROOM01']);
+    });
+});
+
+describe('matchmaking queue', () => {
+    it('releases the queue lock when joining the queue fails', async () => {
+        const store = new MemoryRoomStore();
+        const manager = new RoomManager(fakeServer().io, store);
+        vi.spyOn(store, 'pushToQueue').mockRejectedValueOnce(new Error('store down'));
+
+        await expect(manager.joinQueue(fakeSocket('alice'), 2)).rejects.toThrow('store down');
+        expect(await store.getQueueRef('alice')).toBeNull();
+        await manager.joinQueue(fakeSocket('alice'), 2);
+        expect((await store.getQueue(2)).map(e => e.playerId)).toEqual(['alice']);
+    });
+
+    it('releases the locks of matched players whose table could not be opened', async () => {
+        const store = new MemoryRoomStore();
+        const manager = new RoomManager(fakeServer().io, store);
+        await manager.joinQueue(fakeSocket('alice'), 2);
+        vi.spyOn(store, 'saveRoom').mockRejectedValueOnce(new Error('store down'));
+
+        await expect(manager.joinQueue(fakeSocket('bob'), 2)).rejects.toThrow('store down');
+        expect(await store.getQueueRef('alice')).toBeNull();
+        expect(await store.getQueueRef('bob')).toBeNull();
+
+        await manager.joinQueue(fakeSocket('alice'), 2);
+        await manager.joinQueue(fakeSocket('bob'), 2);
+        expect(await store.getPlayerRoom('alice')).not.toBeNull();
+    });
+});
+
+describe('action log replay', () => {
+    // What the log has to reproduce: everything about the deal, leaving out clocks
+    const snapshot = (state: GameState) => ({
+        status: state.status,
+        dealNumber: state.dealNumber,
+        currentTurnPlayerId: state.currentTurnPlayerId,
+        wildCard: state.wildCard,
+        discardPile: state.discardPile.map(c => c.id),
+        deckCount: state.deckCount,
+        reshuffleCount: state.reshuffleCount,
+        fairness: state.fairness,
+        winner: state.winner,
+        scores: state.scores,
+        players: state.players.map(p => ({
+            id: p.id,
+            hand: p.hand.map(c => c.id),
+            isMyTurn: p.isMyTurn,
+            hasDropped: p.hasDropped,
+            penalty: p.penalty,
+            drawnCardId: p.drawnCardId,
+            totalScore: p.totalScore
+        }))
+    });
+
+    it('rebuilds the saved room from the log of a deal with a drop, a timeout and a reshuffle', async () => {
+        vi.useFakeTimers();
+        try {
+            const { store, manager, roomId } = await setup(['alice', 'bob', 'carol']);
+            const load = async () => (await store.getRoom(roomId))!;
+            const turn = async () => {
+                const room = await load();
+                return room.players.find(p => p.id === room.gameState.currentTurnPlayerId)!;
+            };
+            manager.startTimers();
+
+            await manager.startGame('alice', roomId);
+            await manager.dropPlayer((await turn()).id, roomId);
+
+            // Bob lets the clock run out, so the server draws and throws for him
+            const bob = await turn();
+            const room = await load();
+            await vi.advanceTimersByTimeAsync(room.gameState.turnDeadline! - Date.now() + 1000);
+            expect((await load()).players.find(p => p.id === bob.id)?.timeouts).toBe(1);
+
+            const carol = await turn();
+            await manager.rearrangeHand(carol.id, roomId, [...carol.hand].reverse().map(c => c.id));
+            await manager.drawCard(carol.id, roomId, true);
+            await manager.discardCard(carol.id, roomId, (await turn()).hand[0].id);
+
+            // Play out the stock until the discards are shuffled back in
+            while ((await load()).gameState.reshuffleCount === 0) {
+                const player = await turn();
+                await manager.drawCard(player.id, roomId, false);
+                const drawn = (await turn()).drawnCardId!;
+                await manager.discardCard(player.id, roomId, drawn);
+            }
+
+            const playing = await load();
+            expect(snapshot(GameReplay.replay(await store.getLog(roomId)))).toEqual(snapshot(playing.gameState));
+
+            // Whoever is left on their own wins the deal and the match is archived
+            await manager.dropPlayer((await turn()).id, roomId);
+            const ended = await load();
+            expect(ended.gameState.status).toBe('ended');
+            const archived = await manager.getMatchLog(ended.gameState.matchId);
+            expect(snapshot(GameReplay.replay(archived))).toEqual(snapshot(ended.gameState));
+            manager.stopTimers();
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+});
@@ -1,48 +1,75 @@
-import { Server, Socket } from 'socket.io';
 import { v4 as uuidv4 } from 'uuid';
-import { GameState, PlayerState, Card } from '../lib/game/types';
+import { GameState, GameView, PlayerState, Card, GroupingSuggestion, RoomOptions, Standing, GameAction, GameLogEntry, BotLevel, MatchPlayerResult } from '../lib/game/types';
+import { FairShuffle } from '../lib/game/fairness';
 import { Deck } from '../lib/game/deck';
-import { Redis } from '@upstash/redis';
-
-// Use Environment Variables (Secure)
-const redis = new Redis({
-    url: process.env.REDIS_URL!,
-    token: process.env.REDIS_TOKEN!,
-});
-
-interface RoomData {
-    id: string;
-    players: PlayerState[];
-    gameState: GameState;
-    deckState: { cards: Card[] };
+import { RummyValidator } from '../lib/game/validator';
+import { RummyScorer, WRONG_SHOW_PENALTY, FIRST_DROP_PENALTY, MIDDLE_DROP_PENALTY } from '../lib/game/scoring';
+import { RummySolver } from '../lib/game/solver';
+import { GameViews } from '../lib/game/views';
+import { RummyBot } from '../lib/game/bot';
+import { DEFAULT_RATING } from '../lib/game/rating';
+import { PoolRummy, POOL_LIMITS } from '../lib/game/pool';
+import { DealsRummy, DEAL_COUNTS } from '../lib/game/deals';
+import { RoomStore, RoomData, RoomConflictError, QueueEntry } from './store';
+import { GameError } from './errors';
+import { MatchRecorder } from './matchRecorder';
+import { Wallet } from './wallet';
+import { PlayerStats } from './stats';
+import { GameServer, GameSocket, GameBroadcast } from './types';
+
+const SHOW_WINDOW_MS = 45000; // Time the other players get to submit their groups
+const DEFAULT_MAX_RESHUFFLES = 2;
+const NEXT_DEAL_DELAY_MS = 15000; // Results screen time between deals of a match
+const DEFAULT_TURN_SECONDS = 30;
+const DEFAULT_TIME_BANK_SECONDS = 60; // Extra time per player per deal, spent once the turn clock runs out
+const AUTO_DROP_TIMEOUTS = 3; // Consecutive timed out turns before a player is dropped
+const TIMER_POLL_MS = 1000;
+const TIMER_LEASE_MS = 30000; // A claimed timer comes due again after this, should its server die
+const QUEUE_SWEEP_MS = 5000;
+const QUEUE_TIMEOUT_MS = 5 * 60000; // Longest wait in a matchmaking queue
+const GAME_SIZES = [2, 3, 4, 5, 6];
+const RECONNECT_GRACE_MS = 60000; // How long a disconnected player keeps their seat
+const BOT_THINK_MS = 1500; // Pause before a bot plays, so people can follow along
+const QUEUE_BOT_LEVEL: BotLevel = 'medium';
+const RATING_BAND = 150; // Widest rating gap at a table made from the queue...
+const RATING_BAND_GROWTH = 50; // ...growing by this much every 10 seconds of waiting
+
+const ROOM_TTL = 86400;
+const ENDED_ROOM_TTL = 300; // Keep finished rooms around long enough to show results
+const QUEUE_REF_TTL = 3600;
+const ARCHIVED_LOG_TTL = 30 * 86400; // Finished matches stay replayable for a month
+
+// Every socket of a player joins this socket.io room, so a player can be
+// reached no matter which connection (or tab) they are on
+const playerChannel = (playerId: string) => `player:${playerId}`;
+
+export interface RoomManagerOptions {
+    botFillSeconds?: number; // Queue wait after which the table is filled up with bots; 0 never does
+    rakePercent?: number; // House cut of the pot at tables with an entry fee
 }
 
 export class RoomManager {
-    private io: Server;
-    // Using the global redis client instance
-
-    constructor(io: Server) {
+    private io: GameServer;
+    private store: RoomStore;
+    private roomActions = new Map<string, Promise<void>>();
+    private pendingLog = new WeakMap<RoomData, GameLogEntry[]>();
+    private timerPoll?: NodeJS.Timeout;
+    private queueSweep?: NodeJS.Timeout;
+    private polling = false;
+    private botFillMs: number;
+    private rakePercent: number;
+    private results: MatchRecorder;
+
+    constructor(io: GameServer, store: RoomStore, options: RoomManagerOptions = {}) {
         this.io = io;
-        console.log("Upstash Redis configured");
-    }
-
-    private safeParse<T>(data: string | T): T | null {
-        if (typeof data === 'string') {
-            try {
-                return JSON.parse(data);
-            } catch (e) {
-                console.error("Failed to parse Redis data:", data, e);
-                return null;
-            }
-        }
-        return data; // Already an object (Upstash behavior)
+        this.store = store;
+        this.botFillMs = (options.botFillSeconds ?? 0) * 1000;
+        this.rakePercent = options.rakePercent ?? 0;
+        this.results = new MatchRecorder(store);
     }
 
     private async getRoom(roomId: string): Promise<{ room: RoomData, deck: Deck } | null> {
-        const data = await redis.get<RoomData | string>(`room:${roomId}`);
-        if (!data) return null;
-
-        const roomData = this.safeParse<RoomData>(data);
+        const roomData = await this.store.getRoom(roomId);
         if (!roomData) return null;
 
         // Sync players between room wrapper and game state
@@ -53,338 +80,1346 @@ export class RoomManager {
         return { room: roomData, deck };
     }
 
+    private async loadRoom(roomId: string): Promise<{ room: RoomData, deck: Deck }> {
+        const data = await this.getRoom(roomId);
+        if (!data) throw new GameError('ROOM_NOT_FOUND', 'Room not found');
+        return data;
+    }
+
+    private requirePlayer(room: RoomData, playerId: string): PlayerState {
+        const player = room.players.find(p => p.id === playerId);
+        if (!player) throw new GameError('NOT_IN_ROOM', 'You are not playing in this room');
+        return player;
+    }
+
+    // Writes only if nobody else saved the room since it was read. Actions recorded
+    // since the last save go to the log in the same write.
     private async saveRoom(room: RoomData, deck: Deck) {
         room.deckState = { cards: deck.cards };
-        await redis.set(`room:${room.id}`, JSON.stringify(room), { ex: 86400 });
+        const expectedVersion = room.version;
+        room.version = expectedVersion + 1;
+        const pending = this.pendingLog.get(room) || [];
+        this.pendingLog.delete(room);
+        if (!await this.store.saveRoom(room, ROOM_TTL, expectedVersion, pending)) {
+            room.version = expectedVersion;
+            room.logSeq -= pending.length;
+            throw new RoomConflictError(room.id);
+        }
+        await this.scheduleTimer(room);
+    }
+
+    // Queues an accepted action for the room's log; it is written with the next save
+    private record(room: RoomData, action: GameAction) {
+        const entry = { ...action, seq: room.logSeq++, at: Date.now() } as GameLogEntry;
+        const pending = this.pendingLog.get(room) || [];
+        pending.push(entry);
+        this.pendingLog.set(room, pending);
+    }
+
+    // The match is over: archive its log for replays, let the room expire and record
+    // the result. Shares of the pot are passed in when the players agreed on them,
+    // otherwise the winner takes it all, or with no winner the people still seated
+    // share it. With nobody at all to pay, the stakes are refunded (see Wallet.settle).
+    private async closeRoom(room: RoomData, reason: string, winnerId?: string, shares?: Record<string, number>) {
+        const log = await this.store.getLog(room.id);
+        await this.store.archiveLog(room.gameState.matchId, log, ARCHIVED_LOG_TTL);
+        await this.store.expireRoom(room.id, ENDED_ROOM_TTL);
+
+        // Tables that never dealt a hand leave no result
+        const firstDeal = log.find(e => e.type === 'deal');
+        if (!firstDeal) return;
+        const state = room.gameState;
+        if (!shares && state.entryFee) {
+            // The winner may be eliminated too, when everyone busts in the same pool deal
+            const people = room.players.filter(p => !p.bot && !p.isEliminated);
+            shares = room.players.some(p => p.id === winnerId && !p.bot)
+                ? { [winnerId!]: 1 }
+                : Object.fromEntries(people.map(p => [p.id, 1 / people.length]));
+        }
+        await this.results.record({
+            matchId: state.matchId,
+            roomId: room.id,
+            variant: state.variant,
+            players: this.getMatchPlayers(room, log, winnerId, shares),
+            winnerId,
+            reason,
+            deals: state.dealNumber,
+            startedAt: firstDeal.at,
+            endedAt: Date.now(),
+            entryFee: state.entryFee,
+            shares,
+            rakePercent: state.entryFee ? this.rakePercent : undefined
+        });
+    }
+
+    // Standings with a finishing place (winners first, then by score or chips) and the
+    // deadwood each player was caught with, from the deal results in the log
+    private getMatchPlayers(room: RoomData, log: GameLogEntry[], winnerId?: string, shares?: Record<string, number>): MatchPlayerResult[] {
+        const byChips = room.gameState.variant === 'deals';
+        const won = (s: Standing) => shares ? (shares[s.playerId] ?? 0) > 0 : s.playerId === winnerId;
+        const rank = (s: Standing) => (won(s) ? 0 : 1e9) + (byChips ? -(s.chips ?? 0) : s.totalScore);
+        const standings = this.getStandings(room).sort((a, b) => rank(a) - rank(b));
+
+        return standings.map(s => {
+            const scores = log.flatMap(e => e.type === 'deal-end' ? e.scores : [])
+                .filter(score => score.playerId === s.playerId && (score.reason === 'deadwood' || score.reason === 'winner'));
+            return {
+                ...s,
+                bot: room.players.find(p => p.id === s.playerId)?.bot,
+                place: standings.findIndex(other => rank(other) === rank(s)),
+                deadwood: scores.reduce((sum, score) => sum + score.points, 0),
+                deadwoodDeals: scores.length
+            };
+        });
+    }
+
+    async getMatchLog(matchId: string): Promise<GameLogEntry[]> {
+        const log = await this.store.getArchivedLog(matchId);
+        if (!log) throw new GameError('ROOM_NOT_FOUND', 'No finished match with that id');
+        return log;
+    }
+
+    // Actions on one room run one at a time on this instance. A write racing in from
+    // another instance fails the version check in saveRoom and the action is rejected.
+    private async runRoomAction(roomId: string, playerId: string | null, action: () => Promise<void>) {
+        const previous = this.roomActions.get(roomId) || Promise.resolve();
+        const run = previous.then(action);
+        const settled = run.catch(() => undefined);
+        this.roomActions.set(roomId, settled);
+
+        try {
+            await run;
+        } catch (err) {
+            if (!(err instanceof RoomConflictError)) throw err;
+            console.warn(err.message);
+            if (playerId) {
+                // Resync the client with whatever won
+                const data = await this.getRoom(roomId);
+                if (data) this.io.to(playerChannel(playerId)).emit('game-update', GameViews.forPlayer(data.room.gameState, playerId));
+            }
+            throw new GameError('CONFLICT', 'The table changed before your move was saved, please try again');
+        } finally {
+            if (this.roomActions.get(roomId) === settled) this.roomActions.delete(roomId);
+        }
+    }
+
+    // Every seated player gets their own view of the table; anyone else in the
+    // socket.io room only gets the view without hands
+    private broadcastViews(room: RoomData, send: (to: GameBroadcast, view: GameView) => void) {
+        const channels = room.players.map(p => playerChannel(p.id));
+        for (const player of room.players) {
+            send(this.io.to(playerChannel(player.id)), GameViews.forPlayer(room.gameState, player.id));
+        }
+        send(this.io.to(room.id).except(channels), GameViews.forSpectator(room.gameState));
+    }
+
+    private broadcastState(room: RoomData, event: 'player-joined' | 'game-started' | 'game-update') {
+        this.broadcastViews(room, (to, view) => to.emit(event, view));
+    }
+
+    // Deadlines (turn clock, show window, next deal) live in the room state and the
+    // store keeps one due time per room, so a restarted server picks them back up
+    startTimers() {
+        this.timerPoll = setInterval(() => this.pollTimers(), TIMER_POLL_MS);
+        this.queueSweep = setInterval(() => {
+            this.sweepQueues().catch(err => console.error("Failed to sweep queues:", err));
+        }, QUEUE_SWEEP_MS);
+        this.results.start();
+    }
+
+    stopTimers() {
+        clearInterval(this.timerPoll);
+        clearInterval(this.queueSweep);
+        this.results.stop();
+    }
+
+    private async pollTimers() {
+        if (this.polling) return;
+        this.polling = true;
+        try {
+            const now = Date.now();
+            const roomIds = await this.store.claimDueTimers(now, now + TIMER_LEASE_MS);
+            for (const roomId of roomIds) {
+                await this.runRoomAction(roomId, null, () => this.runDueTimers(roomId))
+                    .catch(err => console.error(`Timer failed in room ${roomId}:`, err));
+                await this.runBots(roomId)
+                    .catch(err => console.error(`Bot failed to play in room ${roomId}:`, err));
+                await this.rescheduleTimer(roomId);
+            }
+        } catch (err) {
+            console.error("Failed to poll room timers:", err);
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    private nextDeadline(room: RoomData): number | undefined {
+        const state = room.gameState;
+        const deadlines: (number | undefined)[] = [];
+        if (state.status === 'playing') deadlines.push(state.turnDeadline);
+        if (state.status === 'declaring') deadlines.push(state.showDeadline);
+        if (state.status === 'deal-ended') deadlines.push(state.nextDealAt);
+        if (this.botToMove(room)) deadlines.push(state.botMoveAt);
+        // Mid-show a missing player's hand stays on the table until it is scored
+        if (state.status !== 'declaring' && state.status !== 'ended') {
+            deadlines.push(...room.players.map(p => p.reconnectDeadline));
+        }
+        const pending = deadlines.filter((d): d is number => d !== undefined);
+        return pending.length > 0 ? Math.min(...pending) : undefined;
+    }
+
+    private async scheduleTimer(room: RoomData) {
+        const dueAt = this.nextDeadline(room);
+        if (dueAt) await this.store.setRoomTimer(room.id, dueAt);
+        else await this.store.clearRoomTimer(room.id);
+    }
+
+    // A claimed timer sits at the end of its lease, so put back whatever the room now
+    // waits for. After a failed run that is the same overdue deadline, tried again next poll.
+    private async rescheduleTimer(roomId: string) {
+        const data = await this.getRoom(roomId);
+        if (data) await this.scheduleTimer(data.room);
+    }
+
+    private async runDueTimers(roomId: string) {
+        const data = await this.getRoom(roomId);
+        if (!data) return;
+        const { room, deck } = data;
+        const state = room.gameState;
+        const now = Date.now();
+
+        if (state.status !== 'declaring' && state.status !== 'ended') {
+            const gone = room.players.filter(p => p.reconnectDeadline && p.reconnectDeadline <= now);
+            for (const player of gone) {
+                if (!room.players.includes(player)) continue;
+                console.log(`Player ${player.name} did not come back to room ${room.id}`);
+                await this.removePlayer(room, deck, player);
+            }
+        }
+
+        if (state.status === 'playing' && state.turnDeadline && state.turnDeadline <= now) {
+            await this.handleTurnTimeout(room, deck);
+        } else if (state.status === 'declaring' && state.showDeadline && state.showDeadline <= now) {
+            // Show window closed; whoever has not submitted keeps their hand ungrouped
+            await this.endGame(room, deck, state.declarerId, 'Valid Declaration');
+        } else if (state.status === 'deal-ended' && state.nextDealAt && state.nextDealAt <= now) {
+            await this.beginDeal(room, deck);
+        }
     }
 
-    async createRoom(maxPlayers: number = 6): Promise<string> {
+    // The bot whose turn it is, or one that still has to submit its groups at a show
+    private botToMove(room: RoomData): PlayerState | undefined {
+        const state = room.gameState;
+        if (state.status === 'playing') {
+            return room.players.find(p => p.id === state.currentTurnPlayerId && p.bot);
+        }
+        if (state.status === 'declaring') {
+            return room.players.find(p => p.bot && !p.hasDropped && !p.declaredGroups);
+        }
+        return undefined;
+    }
+
+    // Bots play through the same actions as people, each one its own room action
+    private async runBots(roomId: string) {
+        for (;;) {
+            const data = await this.getRoom(roomId);
+            const bot = data && this.botToMove(data.room);
+            const state = data?.room.gameState;
+            if (!bot || !state?.botMoveAt || state.botMoveAt > Date.now()) return;
+
+            // Bots decide from the same view a person in their seat would get
+            const view = GameViews.forPlayer(state, bot.id);
+            const me = view.players.find(p => p.id === bot.id)!;
+            const level = bot.bot!;
+
+            if (state.status === 'declaring') {
+                await this.submitGroups(bot.id, roomId, RummyBot.showGroups(me.hand, view.wildCard));
+                continue;
+            }
+
+            const opponentPickups = level === 'hard' ? await this.opponentPickups(roomId, bot.id) : [];
+            if (me.hand.length === 13) {
+                const topDiscard = view.discardPile[view.discardPile.length - 1];
+                const fromDiscard = RummyBot.chooseDraw({ level, hand: me.hand, topDiscard, wildCard: view.wildCard, opponentPickups });
+                await this.drawCard(bot.id, roomId, fromDiscard);
+            }
+
+            // The draw may have ended the deal
+            const after = await this.getRoom(roomId);
+            const hand = after?.room.players.find(p => p.id === bot.id)?.hand;
+            if (!after || after.room.gameState.status !== 'playing' || hand?.length !== 14) return;
+
+            const wildCard = after.room.gameState.wildCard;
+            const declaration = RummyBot.findDeclaration(hand, wildCard);
+            if (declaration) {
+                await this.declare(bot.id, roomId, declaration.finishCardId, declaration.groups);
+            } else {
+                await this.discardCard(bot.id, roomId, RummyBot.chooseDiscard({ level, hand, wildCard, opponentPickups }));
+            }
+            return;
+        }
+    }
+
+    // Cards other players took from the open discard pile this deal, as anyone at the
+    // table could have seen. The deal's deck in the action log maps card ids to faces.
+    private async opponentPickups(roomId: string, botId: string): Promise<Card[]> {
+        const log = await this.store.getLog(roomId);
+        let dealStart = -1;
+        log.forEach((e, i) => { if (e.type === 'deal') dealStart = i; });
+        const deal = log[dealStart];
+        if (!deal || deal.type !== 'deal') return [];
+
+        const faces = new Map(deal.deck.map(c => [c.id, c]));
+        return log.slice(dealStart)
+            .filter(e => e.type === 'draw' && e.fromDiscard && e.playerId !== botId)
+            .map(e => e.type === 'draw' ? faces.get(e.cardId) : undefined)
+            .filter((c): c is Card => !!c);
+    }
+
+    // Out of time: draw from the deck and throw the same card back, or drop the
+    // player once they have timed out too many turns in a row
+    private async handleTurnTimeout(room: RoomData, deck: Deck) {
+        const player = room.players.find(p => p.id === room.gameState.currentTurnPlayerId);
+        if (!player) return;
+
+        player.timeBank = 0;
+        player.timeouts = (player.timeouts ?? 0) + 1;
+        const dropped = player.timeouts >= AUTO_DROP_TIMEOUTS;
+        this.record(room, { type: 'timeout', playerId: player.id });
+
+        // Either way may end the deal, which saves the room itself
+        let dealEnded: boolean;
+        if (dropped) {
+            if (player.hand.length === 14) this.throwCard(room, player, player.drawnCardId ?? player.hand[13].id);
+            dealEnded = await this.dropOut(room, deck, player);
+        } else {
+            dealEnded = player.hand.length === 13 && !await this.takeCard(room, deck, player, false);
+            if (!dealEnded) {
+                this.throwCard(room, player, player.drawnCardId ?? player.hand[13].id);
+                this.advanceTurn(room, player.id);
+            }
+        }
+
+        if (!dealEnded) await this.saveRoom(room, deck);
+        // Only announced once saved, so a conflicting write never shows a timeout that did not happen
+        this.io.to(room.id).emit('turn-timeout', { playerId: player.id, name: player.name, timeouts: player.timeouts, dropped });
+        if (!dealEnded) this.broadcastState(room, 'game-update');
+    }
+
+    async createRoom(maxPlayers: number = 6, options: RoomOptions = {}): Promise<string> {
         const roomId = uuidv4().slice(0, 6).toUpperCase();
-        const deck = new Deck(2, 2);
-        deck.shuffle();
+        const deck = new Deck(2, 2); // Replaced by a seeded one at every deal
+        const serverSeed = FairShuffle.newServerSeed();
 
         const initialGameState: GameState = {
             roomId,
+            matchId: uuidv4(),
             players: [],
+            spectators: [],
             currentTurnPlayerId: '',
             deckCount: deck.count,
             discardPile: [],
             status: 'waiting',
-            maxPlayers
+            maxPlayers,
+            variant: options.variant || 'points',
+            dealNumber: 0,
+            reshuffleCount: 0,
+            maxReshuffles: options.maxReshuffles ?? DEFAULT_MAX_RESHUFFLES,
+            turnSeconds: options.turnSeconds ?? DEFAULT_TURN_SECONDS,
+            timeBankSeconds: options.timeBankSeconds ?? DEFAULT_TIME_BANK_SECONDS,
+            seedCommitment: FairShuffle.commit(serverSeed)
         };
+        if (options.entryFee) {
+            initialGameState.entryFee = options.entryFee;
+            initialGameState.pot = 0;
+        }
+
+        if (initialGameState.variant === 'pool') {
+            initialGameState.poolLimit = options.poolLimit ?? POOL_LIMITS[0];
+        }
+        if (initialGameState.variant === 'deals') {
+            initialGameState.dealCount = options.dealCount ?? DEAL_COUNTS[0];
+        }
 
         const roomData: RoomData = {
             id: roomId,
             players: [],
             gameState: initialGameState,
-            deckState: { cards: deck.cards }
+            deckState: { cards: deck.cards },
+            version: 0,
+            logSeq: 0,
+            serverSeed
         };
 
+        const { matchId, variant, poolLimit, dealCount, maxReshuffles, turnSeconds, timeBankSeconds, seedCommitment, entryFee } = initialGameState;
+        this.record(roomData, { type: 'create', roomId, matchId, variant, maxPlayers, poolLimit, dealCount, maxReshuffles, turnSeconds, timeBankSeconds, seedCommitment, entryFee });
         await this.saveRoom(roomData, deck);
         return roomId;
     }
 
-    async joinQueue(socket: Socket, playerName: string, gameSize: number) {
-        const queueKey = `queue:${gameSize}`;
-        const playerInfo = JSON.stringify({ id: socket.id, name: playerName });
-        await redis.rpush(queueKey, playerInfo);
+    async joinQueue(socket: GameSocket, gameSize: number) {
+        const { playerId, name } = socket.data;
+        const entry: QueueEntry = { playerId, name, joinedAt: Date.now(), rating: await PlayerStats.rating(playerId) };
 
-        // Track queue entry for cleanup on disconnect
-        await redis.set(`queue_ref:${socket.id}`, JSON.stringify({ gameSize, playerInfo }), { ex: 3600 });
-        console.log(`Player ${playerName} joined Redis queue ${gameSize}`);
+        // The ref doubles as the lock against queueing twice, and finds the entry on disconnect
+        if (!await this.store.claimQueueRef(playerId, { gameSize, entry }, QUEUE_REF_TTL)) {
+            throw new GameError('INVALID_STATE', 'You are already waiting for a game');
+        }
+        try {
+            await this.store.pushToQueue(gameSize, entry);
+        } catch (err) {
+            await this.store.deleteQueueRef(playerId);
+            throw err;
+        }
+        console.log(`Player ${name} joined queue ${gameSize}`);
 
-        // Check length
-        const len = await redis.llen(queueKey);
+        await this.matchQueue(gameSize);
+    }
 
-        if (len >= gameSize) {
-            const playersRaw = await redis.lpop<string[]>(queueKey, gameSize);
+    async leaveQueue(playerId: string) {
+        const queueRef = await this.store.getQueueRef(playerId);
+        if (!queueRef) return;
+        await this.store.removeFromQueue(queueRef.gameSize, queueRef.entry);
+        await this.store.deleteQueueRef(playerId);
+        await this.publishQueuePositions(queueRef.gameSize);
+    }
 
-            // Validate we got enough players (concurrency check)
-            if (playersRaw && playersRaw.length === gameSize) {
-                const players: { id: string, name: string }[] = [];
-                for (const raw of playersRaw) {
-                    const p = this.safeParse<{ id: string, name: string }>(raw);
-                    if (p) players.push(p);
-                }
+    // Seats full tables for as long as the queue has enough players. A matched player
+    // without any connection left loses their place; the others go back to the front.
+    private async matchQueue(gameSize: number) {
+        for (;;) {
+            const entries = this.pickMatch(await this.store.getQueue(gameSize), gameSize);
+            if (!entries) break;
+            // Another server seated one of them first: look again
+            if (!await this.store.takeFromQueue(gameSize, entries)) continue;
+            await this.seatMatch(gameSize, entries);
+        }
+        await this.publishQueuePositions(gameSize);
+    }
 
-                if (players.length !== gameSize) {
-                    // Should not happen if data integrity is good, but if it does, 
-                    // we might lose players technically if we don't push them back.
-                    // For now, logging error.
-                    console.error("Matchmaking error: parsed players count mismatch");
-                    return;
-                }
+    // The longest waiting player with the closest rated others. The band widens the
+    // longer they wait, so nobody is stuck for want of an exact match.
+    private pickMatch(waiting: QueueEntry[], gameSize: number): QueueEntry[] | null {
+        if (waiting.length < gameSize) return null;
+        const rating = (e: QueueEntry) => e.rating ?? DEFAULT_RATING;
+
+        for (const anchor of waiting) {
+            const band = RATING_BAND + RATING_BAND_GROWTH * Math.floor((Date.now() - anchor.joinedAt) / 10000);
+            const gap = (e: QueueEntry) => Math.abs(rating(e) - rating(anchor));
+            const others = waiting
+                .filter(e => e !== anchor && gap(e) <= band)
+                .sort((a, b) => gap(a) - gap(b));
+            if (others.length >= gameSize - 1) return [anchor, ...others.slice(0, gameSize - 1)];
+        }
+        return null;
+    }
 
-                // Remove queue refs for matched players
-                for (const p of players) {
-                    await redis.del(`queue_ref:${p.id}`);
-                }
+    // Players taken off a queue whose table could not be opened are off the queue
+    // for good: their locks are released so they can queue again straight away
+    private async seatMatch(gameSize: number, entries: QueueEntry[]) {
+        try {
+            await this.openTable(gameSize, entries);
+        } catch (err) {
+            await Promise.all(entries.map(e => this.store.deleteQueueRef(e.playerId)));
+            throw err;
+        }
+    }
 
-                const roomId = await this.createRoom(gameSize);
-                console.log(`Match managed via Upstash! Room ${roomId}`);
+    // Opens a table for players taken off a queue, with bots in any seats left over.
+    // If one of them has no connection left they lose their place and the others go
+    // back to the front of the queue.
+    private async openTable(gameSize: number, entries: QueueEntry[]) {
+        const online = await Promise.all(entries.map(e => this.isConnected(e.playerId)));
+        const gone = entries.filter((_, i) => !online[i]);
+        if (gone.length > 0) {
+            for (const e of gone) await this.store.deleteQueueRef(e.playerId);
+            await this.store.requeue(gameSize, entries.filter((_, i) => online[i]));
+            console.log(`Matchmaking: ${gone.length} player(s) left queue ${gameSize} before being seated`);
+            return;
+        }
 
-                for (const p of players) {
-                    const playerSocket = this.io.sockets.sockets.get(p.id);
-                    if (playerSocket) {
-                        await this.joinRoom(playerSocket, roomId, p.name);
-                    }
-                }
+        for (const e of entries) await this.store.deleteQueueRef(e.playerId);
+        const roomId = await this.createRoom(gameSize);
+        console.log(`Match made! Room ${roomId}`);
+
+        const seats = [
+            ...entries.map(e => ({ id: e.playerId, name: e.name, bot: undefined as BotLevel | undefined })),
+            ...Array.from({ length: gameSize - entries.length }, () => ({ id: this.newBotId(), name: '', bot: QUEUE_BOT_LEVEL }))
+        ];
+        for (const seat of seats) {
+            try {
+                await this.runRoomAction(roomId, null, async () => {
+                    const { room, deck } = await this.loadRoom(roomId);
+                    await this.addPlayer(room, deck, seat.id, seat.name || this.botName(room, QUEUE_BOT_LEVEL), seat.bot);
+                });
+            } catch (err) {
+                console.error(`Matchmaking: could not seat ${seat.name || 'a bot'} in ${roomId}:`, err);
             }
-        } else {
-            socket.emit('queue-joined', { gameSize, current: len });
         }
     }
 
-    async joinRoom(socket: Socket, roomId: string, playerName: string) {
-        const data = await this.getRoom(roomId);
-        if (!data) {
-            socket.emit('error', 'Room not found');
-            return;
-        }
-        const { room, deck } = data;
+    // Someone has waited long enough: whoever is in the queue gets a table, bots fill the rest
+    private async fillWithBots(gameSize: number) {
+        const waiting = await this.store.getQueue(gameSize);
+        if (waiting.length === 0) return;
+        if (Math.min(...waiting.map(e => e.joinedAt)) > Date.now() - this.botFillMs) return;
 
-        if (room.players.find(p => p.id === socket.id)) {
-            socket.join(roomId);
-            socket.emit('player-joined', room.gameState);
-            // Ensure mapping exists on reconnect
-            await redis.set(`socket:${socket.id}`, roomId, { ex: 86400 });
-            return;
+        const entries = await this.store.popFromQueue(gameSize, Math.min(waiting.length, gameSize));
+        if (entries.length === 0) return;
+        await this.seatMatch(gameSize, entries);
+        await this.publishQueuePositions(gameSize);
+    }
+
+    private async publishQueuePositions(gameSize: number) {
+        const entries = await this.store.getQueue(gameSize);
+        entries.forEach((e, i) => {
+            this.io.to(playerChannel(e.playerId)).emit('queue-update', { gameSize, position: i + 1, size: entries.length });
+        });
+    }
+
+    // Drops everyone who has waited too long for a table
+    private async sweepQueues() {
+        const cutoff = Date.now() - QUEUE_TIMEOUT_MS;
+        for (const gameSize of GAME_SIZES) {
+            // Rating bands widen over time, so players who could not be matched may be now
+            await this.matchQueue(gameSize);
+            if (this.botFillMs > 0) await this.fillWithBots(gameSize);
+
+            const expired = await this.store.removeExpiredFromQueue(gameSize, cutoff);
+            if (expired.length === 0) continue;
+            for (const e of expired) {
+                await this.store.deleteQueueRef(e.playerId);
+                this.io.to(playerChannel(e.playerId)).emit('queue-timeout', { gameSize });
+            }
+            console.log(`Queue ${gameSize}: ${expired.length} player(s) timed out`);
+            await this.publishQueuePositions(gameSize);
         }
+    }
+
+    async joinRoom(socket: GameSocket, roomId: string) {
+        await this.runRoomAction(roomId, socket.data.playerId, async () => {
+            const { room, deck } = await this.loadRoom(roomId);
+
+            const existing = room.players.find(p => p.id === socket.data.playerId);
+            if (existing) {
+                await this.resumePlayer(socket, room, deck, existing);
+                return;
+            }
 
+            if (room.gameState.entryFee && !socket.data.username) {
+                throw new GameError('UNAUTHORIZED', 'Log in to play at a table with an entry fee');
+            }
+            socket.data.spectating = undefined;
+            await this.addPlayer(room, deck, socket.data.playerId, socket.data.name);
+        });
+    }
+
+    // Fills a free seat in the lobby with a computer player
+    async addBot(playerId: string, roomId: string, level: BotLevel) {
+        await this.runRoomAction(roomId, playerId, async () => {
+            const { room, deck } = await this.loadRoom(roomId);
+            this.requirePlayer(room, playerId);
+            // Bots hold no coins to stake
+            if (room.gameState.entryFee) throw new GameError('INVALID_STATE', 'Bots cannot join a table with an entry fee');
+            await this.addPlayer(room, deck, this.newBotId(), this.botName(room, level), level);
+        });
+    }
+
+    private newBotId(): string {
+        return `bot-${uuidv4()}`;
+    }
+
+    private botName(room: RoomData, level: BotLevel): string {
+        const count = room.players.filter(p => p.bot).length;
+        return `${level[0].toUpperCase()}${level.slice(1)} Bot ${count + 1}`;
+    }
+
+    // Takes a free seat. Every connection of the player, on whichever server, joins
+    // the socket.io room, so matchmaking can seat players it holds no socket for.
+    private async addPlayer(room: RoomData, deck: Deck, playerId: string, playerName: string, bot?: BotLevel) {
         if (room.players.length >= room.gameState.maxPlayers) {
-            socket.emit('error', 'Room is full');
-            return;
+            throw new GameError('ROOM_FULL', 'Room is full');
         }
 
         if (room.gameState.status !== 'waiting') {
-            socket.emit('error', 'Game already started');
-            return;
+            throw new GameError('GAME_ALREADY_STARTED', 'Game already started');
         }
 
         const newPlayer: PlayerState = {
-            id: socket.id,
+            id: playerId,
             name: playerName,
             hand: [],
             isMyTurn: false,
-            hasDropped: false
+            hasDropped: false,
+            totalScore: 0
         };
+        if (room.gameState.variant === 'deals') {
+            newPlayer.chips = DealsRummy.startingChips(room.gameState.dealCount!);
+        }
+        if (bot) newPlayer.bot = bot;
+
+        // The stake is taken before the seat; if the seat cannot be saved it goes back
+        const fee = room.gameState.entryFee ?? 0;
+        if (fee > 0) {
+            await Wallet.reserve(room.gameState.matchId, playerId, fee);
+            room.gameState.pot = (room.gameState.pot ?? 0) + fee;
+        }
 
         room.players.push(newPlayer);
         room.gameState.players = room.players;
+        // A spectator taking a free seat stops being a spectator
+        room.gameState.spectators = room.gameState.spectators.filter(s => s.id !== newPlayer.id);
+        this.record(room, { type: 'join', playerId: newPlayer.id, name: newPlayer.name });
 
         // Save Room & Mapping
-        await this.saveRoom(room, deck);
-        await redis.set(`socket:${socket.id}`, roomId, { ex: 86400 });
+        try {
+            await this.saveRoom(room, deck);
+        } catch (err) {
+            if (fee > 0) await this.refundStake(room, playerId);
+            throw err;
+        }
+        if (!bot) {
+            await this.store.setPlayerRoom(newPlayer.id, room.id, ROOM_TTL);
+            this.io.in(playerChannel(playerId)).socketsJoin(room.id);
+        }
+        this.broadcastState(room, 'player-joined');
+    }
 
-        socket.join(roomId);
-        this.io.to(roomId).emit('player-joined', room.gameState);
+    private async isConnected(playerId: string): Promise<boolean> {
+        const sockets = await this.io.in(playerChannel(playerId)).fetchSockets();
+        return sockets.length > 0;
     }
 
-    async startGame(roomId: string) {
-        const data = await this.getRoom(roomId);
-        if (!data) return;
-        const { room, deck } = data;
+    // Watching never touches the seats or the turn order; anyone seated is simply resumed
+    async spectateRoom(socket: GameSocket, roomId: string) {
+        await this.runRoomAction(roomId, socket.data.playerId, async () => {
+            const { room, deck } = await this.loadRoom(roomId);
+            const { playerId, name } = socket.data;
+
+            const player = room.players.find(p => p.id === playerId);
+            if (player) {
+                await this.resumePlayer(socket, room, deck, player);
+                return;
+            }
+
+            socket.join(room.id);
+            socket.data.spectating = room.id;
+            if (!room.gameState.spectators.some(s => s.id === playerId)) {
+                room.gameState.spectators.push({ id: playerId, name });
+                await this.saveRoom(room, deck);
+            }
+            this.broadcastState(room, 'game-update');
+        });
+    }
+
+    private async removeSpectator(roomId: string, spectatorId: string) {
+        await this.runRoomAction(roomId, null, async () => {
+            const data = await this.getRoom(roomId);
+            if (!data) return;
+            const { room, deck } = data;
+
+            const spectators = room.gameState.spectators;
+            if (!spectators.some(s => s.id === spectatorId)) return;
+            room.gameState.spectators = spectators.filter(s => s.id !== spectatorId);
+            await this.saveRoom(room, deck);
+            this.broadcastState(room, 'game-update');
+        });
+    }
 
+    // Puts a returning player back in their seat with their hand as they left it
+    private async resumePlayer(socket: GameSocket, room: RoomData, deck: Deck, player: PlayerState) {
+        socket.join(room.id);
+        if (player.disconnected) {
+            player.disconnected = undefined;
+            player.reconnectDeadline = undefined;
+            await this.saveRoom(room, deck);
+            this.broadcastState(room, 'game-update');
+            console.log(`Player ${player.name} reconnected to room ${room.id}`);
+        }
+        socket.emit('player-joined', GameViews.forPlayer(room.gameState, player.id));
+    }
+
+    // Only someone seated at the table deals, spectators just watch
+    async startGame(playerId: string, roomId: string) {
+        await this.runRoomAction(roomId, playerId, async () => {
+            const { room, deck } = await this.loadRoom(roomId);
+            this.requirePlayer(room, playerId);
+            await this.beginDeal(room, deck);
+        });
+    }
+
+    private async beginDeal(room: RoomData, deck: Deck) {
         // Idempotency: Don't restart if already playing
         if (room.gameState.status === 'playing') {
             // Re-emit state to recovering client just in case
-            this.io.to(roomId).emit('game-started', room.gameState);
+            this.broadcastState(room, 'game-started');
             return;
         }
-
-        if (room.players.length < 2) return;
-
-        console.log(`Starting game ${roomId}. Deck count: ${deck.count}`);
-
-        // FAIL-SAFE: If deck is somehow empty or insufficient, regenerate it
-        if (deck.count < (room.players.length * 13)) {
-            console.warn(`Deck insufficient (${deck.count}) for room ${roomId}. Regenerating...`);
-            // Create a fresh deck logic (calling private initialize via public method or new instance)
-            // Hacky but effective: re-instantiate or expose reset. 
-            // Since initialize is private, we can just making a new Deck and stealing its cards.
-            const tempDeck = new Deck(2, 2);
-            tempDeck.shuffle();
-            deck.cards = tempDeck.cards;
-            console.log(`Regenerated deck. New count: ${deck.count}`);
+        if (room.gameState.status !== 'waiting' && room.gameState.status !== 'deal-ended') {
+            throw new GameError('INVALID_STATE', 'The match is over');
         }
 
-        room.gameState.status = 'playing';
+        const seated = room.players.filter(p => !p.isEliminated);
+        if (seated.length < 2) throw new GameError('INVALID_STATE', 'Need at least 2 players to start');
 
-        room.players.forEach(player => {
+        this.resetDeal(room);
+        room.gameState.status = 'playing';
+        room.gameState.dealNumber++;
+
+        // Every deal starts from a fresh deck, shuffled with the committed server seed
+        // and whatever seeds the players added
+        const clientSeed = seated.map(p => p.clientSeed).filter(Boolean).join(':');
+        const fairness = { dealNumber: room.gameState.dealNumber, commitment: room.gameState.seedCommitment, clientSeed };
+        deck.cards = FairShuffle.dealDeck(room.serverSeed, clientSeed).cards;
+        room.gameState.fairness = fairness;
+        console.log(`Starting deal ${fairness.dealNumber} in ${room.id}, seed commitment ${fairness.commitment}`);
+        this.record(room, { type: 'deal', dealNumber: room.gameState.dealNumber, deck: [...deck.cards], fairness: { ...fairness } });
+
+        seated.forEach(player => {
             player.hand = deck.deal(13);
             player.hand.sort((a, b) => a.suit.localeCompare(b.suit));
         });
 
+        // Cut joker: revealed and kept out of play, all cards of its rank become jokers
+        room.gameState.wildCard = deck.draw();
+
         const openCard = deck.draw();
         if (openCard) room.gameState.discardPile.push(openCard);
 
-        room.gameState.currentTurnPlayerId = room.players[0].id;
-        room.players[0].isMyTurn = true;
+        // The opening turn moves round the table from deal to deal
+        const firstPlayer = seated[(room.gameState.dealNumber - 1) % seated.length];
+        room.gameState.currentTurnPlayerId = firstPlayer.id;
+        firstPlayer.isMyTurn = true;
+        this.startTurnClock(room, firstPlayer);
         room.gameState.deckCount = deck.count;
 
         await this.saveRoom(room, deck);
-        this.io.to(roomId).emit('game-started', room.gameState);
+        this.broadcastState(room, 'game-started');
     }
 
-    async drawCard(socket: Socket, roomId: string, fromDiscard: boolean) {
-        const data = await this.getRoom(roomId);
-        if (!data) return;
-        const { room, deck } = data;
+    // Clears everything that belongs to a single deal; eliminated players sit the deal out
+    private resetDeal(room: RoomData) {
+        for (const player of room.players) {
+            player.hand = [];
+            player.isMyTurn = false;
+            player.hasDropped = !!player.isEliminated;
+            player.hasDrawn = false;
+            player.penalty = undefined;
+            player.wrongShow = undefined;
+            player.declaredGroups = undefined;
+            player.drawnCardId = undefined;
+            player.timeBank = room.gameState.timeBankSeconds * 1000;
+            player.timeouts = 0;
+        }
+
+        const state = room.gameState;
+        state.discardPile = [];
+        state.reshuffleCount = 0;
+        state.wildCard = undefined;
+        state.declarerId = undefined;
+        state.finishCard = undefined;
+        state.showDeadline = undefined;
+        state.winner = undefined;
+        state.scores = undefined;
+        state.splitOffer = undefined;
+        state.nextDealAt = undefined;
+    }
+
+    // Players may add their own seed to the shuffle of the next deal
+    async setClientSeed(playerId: string, roomId: string, clientSeed: string) {
+        await this.runRoomAction(roomId, playerId, async () => {
+            const { room, deck } = await this.loadRoom(roomId);
+
+            const player = this.requirePlayer(room, playerId);
+            const status = room.gameState.status;
+            if (status !== 'waiting' && status !== 'deal-ended') {
+                throw new GameError('INVALID_STATE', 'Seeds can only be set between deals');
+            }
+
+            player.clientSeed = clientSeed;
+            await this.saveRoom(room, deck);
+            this.broadcastState(room, 'game-update');
+        });
+    }
+
+    async drawCard(playerId: string, roomId: string, fromDiscard: boolean) {
+        await this.runRoomAction(roomId, playerId, async () => {
+            const { room, deck } = await this.loadRoom(roomId);
 
-        const player = room.players.find(p => p.id === socket.id);
-        if (!player || !player.isMyTurn) return;
-        if (player.hand.length >= 14) return;
+            const player = this.requirePlayer(room, playerId);
+            if (!player.isMyTurn) throw new GameError('NOT_YOUR_TURN', 'It is not your turn');
+            if (player.hand.length >= 14) throw new GameError('INVALID_MOVE', 'You have already drawn this turn');
+
+            if (!await this.takeCard(room, deck, player, fromDiscard)) return;
+
+            await this.saveRoom(room, deck);
+            this.broadcastState(room, 'game-update');
+        });
+    }
 
+    // Draws for the player, reshuffling the discards into the stock when it runs out.
+    // Returns false when the deal ended instead because nothing was left to draw.
+    private async takeCard(room: RoomData, deck: Deck, player: PlayerState, fromDiscard: boolean): Promise<boolean> {
         let card: Card | undefined;
         if (fromDiscard) {
-            if (room.gameState.discardPile.length === 0) return;
+            if (room.gameState.discardPile.length === 0) throw new GameError('INVALID_MOVE', 'The discard pile is empty');
             card = room.gameState.discardPile.pop();
         } else {
-            card = deck.draw();
-            // simple empty deck handle
-            if (!card && room.gameState.discardPile.length > 0) {
-                // Reshuffle logic (simplified: clear discard, warn user)
-                socket.emit('error', 'Deck Empty - Game Over (Demo)');
-                return;
+            if (deck.count === 0) {
+                const discards = room.gameState.discardPile;
+                if (discards.length < 2 || room.gameState.reshuffleCount >= room.gameState.maxReshuffles) {
+                    await this.endDrawnDeal(room, deck);
+                    return false;
+                }
+
+                // Keep the top discard face up, everything under it becomes the new stock
+                const topCard = discards[discards.length - 1];
+                const nonce = room.gameState.reshuffleCount + 1;
+                deck.restock(discards.slice(0, -1), FairShuffle.random(room.serverSeed, room.gameState.fairness?.clientSeed ?? '', nonce));
+                room.gameState.discardPile = [topCard];
+                room.gameState.reshuffleCount++;
+                room.gameState.deckCount = deck.count;
+                this.record(room, { type: 'reshuffle', stock: [...deck.cards] });
+                this.io.to(room.id).emit('deck-reshuffled', { reshuffleCount: room.gameState.reshuffleCount, deckCount: deck.count });
             }
+            card = deck.draw();
         }
 
         if (card) {
             player.hand.push(card);
-            room.gameState.deckCount = deck.count;
-            await this.saveRoom(room, deck);
-            this.io.to(roomId).emit('game-update', room.gameState);
+            player.hasDrawn = true;
+            player.drawnCardId = card.id;
+            this.record(room, { type: 'draw', playerId: player.id, fromDiscard, cardId: card.id });
         }
+        room.gameState.deckCount = deck.count;
+        return true;
     }
 
-    async discardCard(socket: Socket, roomId: string, cardId: string) {
-        const data = await this.getRoom(roomId);
-        if (!data) return;
-        const { room, deck } = data;
+    async discardCard(playerId: string, roomId: string, cardId: string) {
+        await this.runRoomAction(roomId, playerId, async () => {
+            const { room, deck } = await this.loadRoom(roomId);
 
-        const player = room.players.find(p => p.id === socket.id);
-        if (!player || !player.isMyTurn) return;
-        if (player.hand.length !== 14) return;
+            const player = this.requirePlayer(room, playerId);
+            if (!player.isMyTurn) throw new GameError('NOT_YOUR_TURN', 'It is not your turn');
+            if (player.hand.length !== 14) throw new GameError('INVALID_MOVE', 'Draw a card before discarding');
 
-        const cardIndex = player.hand.findIndex(c => c.id === cardId);
-        if (cardIndex === -1) return;
+            if (!player.hand.some(c => c.id === cardId)) throw new GameError('INVALID_MOVE', 'That card is not in your hand');
+
+            this.throwCard(room, player, cardId);
+            player.timeouts = 0;
+            this.advanceTurn(room, player.id);
+
+            await this.saveRoom(room, deck);
+            this.broadcastState(room, 'game-update');
+        });
+    }
+
+    async dropPlayer(playerId: string, roomId: string) {
+        await this.runRoomAction(roomId, playerId, async () => {
+            const { room, deck } = await this.loadRoom(roomId);
+
+            if (room.gameState.status !== 'playing') throw new GameError('INVALID_STATE', 'No deal in progress');
+            const player = this.requirePlayer(room, playerId);
+            if (player.hasDropped) throw new GameError('INVALID_STATE', 'You are already out of this deal');
+            if (!player.isMyTurn) throw new GameError('NOT_YOUR_TURN', 'It is not your turn');
+            if (player.hand.length !== 13) throw new GameError('INVALID_MOVE', 'You can only drop before drawing');
+
+            if (await this.dropOut(room, deck, player)) return;
+
+            await this.saveRoom(room, deck);
+            this.broadcastState(room, 'game-update');
+        });
+    }
 
+    private throwCard(room: RoomData, player: PlayerState, cardId: string) {
+        const cardIndex = player.hand.findIndex(c => c.id === cardId);
         const [discardedCard] = player.hand.splice(cardIndex, 1);
         room.gameState.discardPile.push(discardedCard);
+        player.drawnCardId = undefined;
+        this.record(room, { type: 'discard', playerId: player.id, cardId });
+    }
 
-        player.isMyTurn = false;
-        const currentPlayerIndex = room.players.findIndex(p => p.id === player.id);
-        const nextPlayerIndex = (currentPlayerIndex + 1) % room.players.length;
-        room.players[nextPlayerIndex].isMyTurn = true;
-        room.gameState.currentTurnPlayerId = room.players[nextPlayerIndex].id;
+    // Returns true when the drop left a single player and ended the deal
+    private async dropOut(room: RoomData, deck: Deck, player: PlayerState): Promise<boolean> {
+        player.hasDropped = true;
+        player.penalty = player.hasDrawn ? MIDDLE_DROP_PENALTY : FIRST_DROP_PENALTY;
+        this.advanceTurn(room, player.id);
+        this.record(room, { type: 'drop', playerId: player.id, penalty: player.penalty });
 
-        await this.saveRoom(room, deck);
-        this.io.to(roomId).emit('game-update', room.gameState);
+        this.io.to(room.id).emit('player-dropped', { playerId: player.id, name: player.name, penalty: player.penalty });
+
+        const active = room.players.filter(p => !p.hasDropped);
+        if (active.length === 1) {
+            await this.endGame(room, deck, active[0].id, 'All other players dropped');
+            return true;
+        }
+        return false;
     }
 
-    async rearrangeHand(socket: Socket, roomId: string, newOrderIds: string[]) {
-        const data = await this.getRoom(roomId);
-        if (!data) return;
-        const { room, deck } = data;
+    // Passes the turn to the next player still in the deal
+    private advanceTurn(room: RoomData, fromPlayerId: string) {
+        const currentIndex = room.players.findIndex(p => p.id === fromPlayerId);
+        this.stopTurnClock(room);
+        room.players.forEach(p => p.isMyTurn = false);
+
+        for (let step = 1; step <= room.players.length; step++) {
+            const next = room.players[(currentIndex + step) % room.players.length];
+            if (!next.hasDropped) {
+                next.isMyTurn = true;
+                room.gameState.currentTurnPlayerId = next.id;
+                this.startTurnClock(room, next);
+                return;
+            }
+        }
+    }
 
-        const player = room.players.find(p => p.id === socket.id);
-        if (!player) return;
+    // The deadline covers the turn time plus whatever is left of the player's time bank
+    private startTurnClock(room: RoomData, player: PlayerState) {
+        const now = Date.now();
+        room.gameState.turnStartedAt = now;
+        room.gameState.turnDeadline = now + room.gameState.turnSeconds * 1000 + (player.timeBank ?? 0);
+        room.gameState.botMoveAt = player.bot ? now + BOT_THINK_MS : undefined;
+    }
 
-        const currentIds = new Set(player.hand.map(c => c.id));
-        if (newOrderIds.length !== player.hand.length || !newOrderIds.every(id => currentIds.has(id))) return;
+    // Charges any time past the turn clock to the time bank of whoever was playing
+    private stopTurnClock(room: RoomData) {
+        const state = room.gameState;
+        const player = room.players.find(p => p.id === state.currentTurnPlayerId);
+        if (player && state.turnStartedAt) {
+            const overtime = Date.now() - state.turnStartedAt - state.turnSeconds * 1000;
+            if (overtime > 0) player.timeBank = Math.max(0, (player.timeBank ?? 0) - overtime);
+        }
+        state.turnStartedAt = undefined;
+        state.turnDeadline = undefined;
+        state.botMoveAt = undefined;
+    }
 
-        const newHand: Card[] = [];
-        const cardMap = new Map(player.hand.map(c => [c.id, c]));
-        for (const id of newOrderIds) {
-            const card = cardMap.get(id);
-            if (card) newHand.push(card);
+    // Out of cards and reshuffles: nobody wins, everyone is scored on their best grouping
+    private async endDrawnDeal(room: RoomData, deck: Deck) {
+        for (const player of room.players) {
+            if (player.hasDropped) continue;
+            const suggestion = RummySolver.suggestGrouping(player.hand, room.gameState.wildCard);
+            player.declaredGroups = [...suggestion.groups, suggestion.deadwood]
+                .filter(g => g.length > 0)
+                .map(g => g.map(c => c.id));
+            this.record(room, { type: 'submit-groups', playerId: player.id, groups: player.declaredGroups });
         }
-        player.hand = newHand;
+        await this.endGame(room, deck, undefined, 'Deck ran out - deal drawn');
+    }
 
+    private async endGame(room: RoomData, deck: Deck, winnerId: string | undefined, reason: string) {
+        const state = room.gameState;
+        state.winner = winnerId;
+        this.stopTurnClock(room);
+        room.players.forEach(p => p.isMyTurn = false);
+        state.scores = RummyScorer.scoreDeal(state);
+
+        let matchOver = true;
+        if (state.variant === 'pool') {
+            PoolRummy.applyDeal(room.players, state.scores, state.poolLimit!);
+            const matchWinner = PoolRummy.matchWinner(room.players);
+            matchOver = !!matchWinner;
+            state.matchWinner = matchWinner?.id;
+            if (!matchOver && PoolRummy.canOfferSplit(room.players)) {
+                state.splitOffer = PoolRummy.offerSplit(room.players, state.poolLimit!);
+            }
+        } else {
+            state.scores.forEach(score => {
+                const player = room.players.find(p => p.id === score.playerId);
+                if (player) player.totalScore += score.points;
+            });
+            if (state.variant === 'deals') {
+                DealsRummy.applyDeal(room.players, state.scores, winnerId);
+                matchOver = DealsRummy.isMatchOver(state.dealNumber, state.dealCount!);
+                if (matchOver) state.matchWinner = DealsRummy.matchWinner(room.players)?.id;
+            }
+        }
+
+        state.status = matchOver ? 'ended' : 'deal-ended';
+        if (!matchOver) state.nextDealAt = Date.now() + NEXT_DEAL_DELAY_MS;
+
+        // Reveal the seed behind this deal and commit to a new one for the next
+        const serverSeed = room.serverSeed;
+        if (state.fairness) state.fairness.serverSeed = serverSeed;
+        room.serverSeed = FairShuffle.newServerSeed();
+        state.seedCommitment = FairShuffle.commit(room.serverSeed);
+        this.record(room, {
+            type: 'deal-end',
+            winnerId,
+            reason,
+            scores: state.scores,
+            totals: room.players.map(p => ({ playerId: p.id, totalScore: p.totalScore, chips: p.chips, isEliminated: p.isEliminated })),
+            matchOver,
+            matchWinner: state.matchWinner,
+            serverSeed,
+            nextCommitment: state.seedCommitment
+        });
         await this.saveRoom(room, deck);
-        // Ack not strictly needed but good for sync
-        this.io.to(roomId).emit('game-update', room.gameState);
+        this.io.to(room.id).emit('game-ended', { winnerId, reason, scores: state.scores, matchOver, fairness: state.fairness });
+        this.broadcastState(room, 'game-update');
+
+        if (matchOver) {
+            if (state.variant === 'points') {
+                await this.closeRoom(room, reason, winnerId);
+                return;
+            }
+            const matchReason = state.variant === 'pool' ? 'Last player standing' : 'Most chips after the final deal';
+            this.io.to(room.id).emit('match-ended', { winnerId: state.matchWinner, reason: matchReason, standings: this.getStandings(room) });
+            await this.closeRoom(room, matchReason, state.matchWinner);
+        }
     }
 
-    async debugWin(socket: Socket, roomId: string) {
-        const data = await this.getRoom(roomId);
-        if (!data) return;
-        const { room, deck } = data;
+    private getStandings(room: RoomData): Standing[] {
+        const shares = room.gameState.splitOffer?.shares;
+        const byChips = room.gameState.variant === 'deals';
+        return [...room.players]
+            .sort((a, b) => byChips ? (b.chips ?? 0) - (a.chips ?? 0) : a.totalScore - b.totalScore)
+            .map(p => ({
+                playerId: p.id,
+                name: p.name,
+                totalScore: p.totalScore,
+                isEliminated: !!p.isEliminated,
+                chips: p.chips,
+                share: shares?.[p.id]
+            }));
+    }
 
-        const player = room.players.find(p => p.id === socket.id);
-        if (!player) return;
+    // Pool: survivors may agree to split the pot instead of playing on
+    async respondToSplit(playerId: string, roomId: string, accept: boolean) {
+        await this.runRoomAction(roomId, playerId, async () => {
+            const { room, deck } = await this.loadRoom(roomId);
 
-        room.gameState.status = 'ended';
-        room.gameState.winner = player.id;
+            const offer = room.gameState.splitOffer;
+            if (room.gameState.status !== 'deal-ended' || !offer) throw new GameError('INVALID_STATE', 'There is no split on offer');
+            if (offer.shares[playerId] === undefined) throw new GameError('NOT_IN_ROOM', 'You are not part of this split');
+            if (offer.accepted.includes(playerId)) throw new GameError('INVALID_STATE', 'You have already accepted');
 
-        await this.saveRoom(room, deck);
-        this.io.to(roomId).emit('game-ended', { winnerId: player.id, reason: 'Debug Win' });
+            if (!accept) {
+                room.gameState.splitOffer = undefined;
+                await this.saveRoom(room, deck);
+                this.broadcastState(room, 'game-update');
+                return;
+            }
 
-        setTimeout(() => redis.del(`room:${roomId}`), 10000);
+            offer.accepted.push(playerId);
+            if (offer.accepted.length < Object.keys(offer.shares).length) {
+                await this.saveRoom(room, deck);
+                this.broadcastState(room, 'game-update');
+                return;
+            }
+
+            room.gameState.status = 'ended';
+            this.record(room, { type: 'match-end', reason: 'Pot split' });
+            await this.saveRoom(room, deck);
+            this.broadcastState(room, 'game-update');
+            this.io.to(roomId).emit('match-ended', { reason: 'Pot split', standings: this.getStandings(room) });
+            await this.closeRoom(room, 'Pot split', undefined, offer.shares);
+        });
     }
 
-    async handleDisconnect(socket: Socket) {
-        // 1. Check if in Queue and remove
-        const queueRefData = await redis.get<string>(`queue_ref:${socket.id}`);
-        if (queueRefData) {
-            const parsed = this.safeParse<{ gameSize: number, playerInfo: string }>(queueRefData);
-            if (parsed) {
-                const { gameSize, playerInfo } = parsed;
-                // Upstash Redis lrem expects (key, count, element)
-                await redis.lrem(`queue:${gameSize}`, 0, playerInfo);
-                console.log(`Removed player from queue ${gameSize} due to disconnect`);
+    // Submitted groups must hold every card of the hand exactly once
+    private resolveGroups(hand: Card[], groupIds: string[][]): Card[][] {
+        const cardMap = new Map(hand.map(c => [c.id, c]));
+        const used = new Set<string>();
+        const groups: Card[][] = [];
+        for (const ids of groupIds) {
+            const group: Card[] = [];
+            for (const id of ids) {
+                const card = cardMap.get(id);
+                if (!card) throw new GameError('INVALID_MOVE', 'Groups contain cards that are not in your hand');
+                if (used.has(id)) throw new GameError('INVALID_MOVE', 'A card is used in more than one group');
+                used.add(id);
+                group.push(card);
             }
-            await redis.del(`queue_ref:${socket.id}`);
+            groups.push(group);
         }
+        if (used.size !== hand.length) throw new GameError('INVALID_MOVE', 'Every card of your hand must be in a group');
+        return groups;
+    }
+
+    async declare(playerId: string, roomId: string, finishCardId: string, groupIds: string[][]) {
+        await this.runRoomAction(roomId, playerId, async () => {
+            const { room, deck } = await this.loadRoom(roomId);
+
+            if (room.gameState.status !== 'playing') throw new GameError('INVALID_STATE', 'No deal in progress');
+            const player = this.requirePlayer(room, playerId);
+            if (!player.isMyTurn) throw new GameError('NOT_YOUR_TURN', 'It is not your turn');
+            if (player.hand.length !== 14) throw new GameError('INVALID_MOVE', 'Draw a card before declaring');
+
+            const finishIndex = player.hand.findIndex(c => c.id === finishCardId);
+            if (finishIndex === -1) throw new GameError('INVALID_MOVE', 'Select a finish card to place');
+
+            const hand = player.hand.filter(c => c.id !== finishCardId);
+            const groups = this.resolveGroups(hand, groupIds);
+
+            const [finishCard] = player.hand.splice(finishIndex, 1);
+            const result = RummyValidator.validateHand(player.hand, groups, room.gameState.wildCard);
+            this.io.to(playerChannel(player.id)).emit('declaration-result', result);
+            this.record(room, { type: 'declare', playerId: player.id, finishCardId, groups: groupIds, valid: result.isValid });
+
+            if (!result.isValid) {
+                // Wrong show: full penalty, out of the deal, the rest keep playing
+                player.hasDropped = true;
+                player.penalty = WRONG_SHOW_PENALTY;
+                player.wrongShow = true;
+                player.declaredGroups = groupIds;
+                room.gameState.discardPile.push(finishCard);
+                this.advanceTurn(room, player.id);
+
+                this.io.to(roomId).emit('declaration-invalid', { playerId: player.id, name: player.name, error: result.error });
+
+                const active = room.players.filter(p => !p.hasDropped);
+                if (active.length === 1) {
+                    await this.endGame(room, deck, active[0].id, 'Opponent made a wrong declaration');
+                    return;
+                }
+
+                await this.saveRoom(room, deck);
+                this.broadcastState(room, 'game-update');
+                return;
+            }
+
+            player.declaredGroups = groupIds;
+            player.timeouts = 0;
+            this.stopTurnClock(room);
+            player.isMyTurn = false;
+            room.gameState.status = 'declaring';
+            room.gameState.declarerId = player.id;
+            room.gameState.finishCard = finishCard;
+            room.gameState.showDeadline = Date.now() + SHOW_WINDOW_MS;
+            room.gameState.botMoveAt = Date.now() + BOT_THINK_MS;
+
+            await this.saveRoom(room, deck);
+            this.broadcastState(room, 'game-update');
+        });
+    }
+
+    async submitGroups(playerId: string, roomId: string, groupIds: string[][]) {
+        await this.runRoomAction(roomId, playerId, async () => {
+            const { room, deck } = await this.loadRoom(roomId);
 
-        // 2. Check if in Room
-        const roomId = await redis.get<string>(`socket:${socket.id}`);
+            if (room.gameState.status !== 'declaring') throw new GameError('INVALID_STATE', 'Nobody has declared');
+            const player = this.requirePlayer(room, playerId);
+            if (player.hasDropped) throw new GameError('INVALID_STATE', 'You are out of this deal');
+            if (player.declaredGroups) throw new GameError('INVALID_STATE', 'You have already submitted your groups');
+
+            this.resolveGroups(player.hand, groupIds);
+
+            player.declaredGroups = groupIds;
+            this.record(room, { type: 'submit-groups', playerId: player.id, groups: groupIds });
+            await this.saveRoom(room, deck);
+            this.broadcastState(room, 'game-update');
+
+            // Everyone is in, no need to wait out the show window
+            if (room.players.every(p => p.hasDropped || p.declaredGroups)) {
+                await this.endGame(room, deck, room.gameState.declarerId!, 'Valid Declaration');
+            }
+        });
+    }
+
+    async rearrangeHand(playerId: string, roomId: string, newOrderIds: string[]) {
+        await this.runRoomAction(roomId, playerId, async () => {
+            const { room, deck } = await this.loadRoom(roomId);
+
+            const player = this.requirePlayer(room, playerId);
+
+            const currentIds = new Set(player.hand.map(c => c.id));
+            if (newOrderIds.length !== player.hand.length || !newOrderIds.every(id => currentIds.has(id))) {
+                throw new GameError('INVALID_MOVE', 'New order does not match your hand');
+            }
+
+            const newHand: Card[] = [];
+            const cardMap = new Map(player.hand.map(c => [c.id, c]));
+            for (const id of newOrderIds) {
+                const card = cardMap.get(id);
+                if (card) newHand.push(card);
+            }
+            player.hand = newHand;
+            this.record(room, { type: 'rearrange', playerId: player.id, order: newOrderIds });
+
+            await this.saveRoom(room, deck);
+            // Ack not strictly needed but good for sync
+            this.broadcastState(room, 'game-update');
+        });
+    }
+
+    // Read-only: works out the best grouping of the player's current hand
+    async suggestGrouping(playerId: string, roomId: string): Promise<GroupingSuggestion> {
+        const { room } = await this.loadRoom(roomId);
+
+        const player = this.requirePlayer(room, playerId);
+        if (player.hand.length === 0) throw new GameError('INVALID_STATE', 'You have no cards to sort');
+
+        return RummySolver.suggestGrouping(player.hand, room.gameState.wildCard);
+    }
+
+    // Called for every new connection: joins the player's channel and, if they were
+    // seated somewhere, takes them straight back to their table
+    async connect(socket: GameSocket) {
+        const { playerId } = socket.data;
+        socket.join(playerChannel(playerId));
+        await this.store.setSocketPlayer(socket.id, playerId, ROOM_TTL);
+
+        // Back on the waiting screen if they were queued
+        const queueRef = await this.store.getQueueRef(playerId);
+        if (queueRef) await this.publishQueuePositions(queueRef.gameSize);
+
+        const roomId = await this.store.getPlayerRoom(playerId);
         if (!roomId) return;
 
-        await redis.del(`socket:${socket.id}`);
+        await this.runRoomAction(roomId, playerId, async () => {
+            const data = await this.getRoom(roomId);
+            const player = data?.room.players.find(p => p.id === playerId);
+            if (!data || !player) {
+                await this.store.deletePlayerRoom(playerId);
+                return;
+            }
+            await this.resumePlayer(socket, data.room, data.deck, player);
+        });
+    }
 
-        const data = await this.getRoom(roomId);
-        if (!data) return;
-        const { room, deck } = data;
+    async handleDisconnect(socket: GameSocket) {
+        const playerId = await this.store.getSocketPlayer(socket.id) ?? socket.data.playerId;
+        await this.store.deleteSocketPlayer(socket.id);
+
+        // Still connected from another tab
+        if (await this.isConnected(playerId)) return;
+
+        await this.leaveQueue(playerId);
+
+        // Watching is tied to the connection, there is no grace period for spectators
+        if (socket.data.spectating) {
+            await this.removeSpectator(socket.data.spectating, playerId);
+        }
+
+        const roomId = await this.store.getPlayerRoom(playerId);
+        if (!roomId) return;
+
+        await this.runRoomAction(roomId, null, async () => {
+            const data = await this.getRoom(roomId);
+            if (!data) return;
+            const { room, deck } = data;
+
+            const player = room.players.find(p => p.id === playerId);
+            if (!player || room.gameState.status === 'ended') return;
+            console.log(`Player ${player.name} disconnected from room ${roomId}`);
+
+            // The seat is kept for a while; the timer poller removes them if they stay away
+            player.disconnected = true;
+            player.reconnectDeadline = Date.now() + RECONNECT_GRACE_MS;
+            await this.saveRoom(room, deck);
+            this.broadcastState(room, 'game-update');
+        });
+    }
 
-        const playerIndex = room.players.findIndex(p => p.id === socket.id);
-        if (playerIndex === -1) return;
+    // Leaving on purpose gives up the seat at once, with no grace period. Mid-deal that
+    // forfeits the deal like a disconnect that ran out; stakes follow the same rules.
+    async leaveRoom(socket: GameSocket, roomId: string) {
+        const { playerId } = socket.data;
+        if (socket.data.spectating === roomId) {
+            socket.leave(roomId);
+            socket.data.spectating = undefined;
+            await this.removeSpectator(roomId, playerId);
+            return;
+        }
 
-        const player = room.players[playerIndex];
-        console.log(`Player ${player.name} disconnected from room ${roomId}`);
+        await this.runRoomAction(roomId, playerId, async () => {
+            const { room, deck } = await this.loadRoom(roomId);
+            const player = this.requirePlayer(room, playerId);
+
+            // Every tab of the player stops following the table
+            await this.store.deletePlayerRoom(playerId);
+            this.io.in(playerChannel(playerId)).socketsLeave(room.id);
+            console.log(`Player ${player.name} left room ${room.id}`);
+            if (room.gameState.status === 'ended') return;
+
+            // Mid-show the hand stays on the table to be scored, and a player who just
+            // lost a two-handed deal stays seated until it is over. The timer poller
+            // frees the seat once the deadline has passed, as for a disconnect.
+            player.disconnected = true;
+            player.reconnectDeadline = Date.now();
+            if (room.gameState.status === 'declaring') {
+                await this.saveRoom(room, deck);
+                this.broadcastState(room, 'game-update');
+                return;
+            }
+            await this.removePlayer(room, deck, player);
+        });
+    }
+
+    // Grace period over, or the player left: they give up their seat
+    private async removePlayer(room: RoomData, deck: Deck, player: PlayerState) {
+        const playerIndex = room.players.indexOf(player);
+        await this.store.deletePlayerRoom(player.id);
 
         if (room.gameState.status === 'playing') {
             if (room.players.length === 2) {
-                const winner = room.players.find(p => p.id !== socket.id);
+                // The seat itself is freed on the next poll, once the deal is over
+                const winner = room.players.find(p => p.id !== player.id);
                 if (winner) {
-                    room.gameState.status = 'ended';
-                    room.gameState.winner = winner.id;
-                    this.io.to(roomId).emit('game-ended', { winnerId: winner.id, reason: 'Opponent Disconnected' });
-                    await redis.expire(`room:${roomId}`, 300);
+                    await this.endGame(room, deck, winner.id, 'Opponent Disconnected');
                 }
             } else {
+                if (player.isMyTurn) this.advanceTurn(room, player.id);
                 room.players.splice(playerIndex, 1);
-
-                if (player.isMyTurn && room.players.length > 0) {
-                    const nextIdx = playerIndex >= room.players.length ? 0 : playerIndex;
-                    room.players[nextIdx].isMyTurn = true;
-                    room.gameState.currentTurnPlayerId = room.players[nextIdx].id;
-                }
+                this.record(room, { type: 'leave', playerId: player.id });
 
                 await this.saveRoom(room, deck);
-                this.io.to(roomId).emit('player-left', { playerId: socket.id, name: player.name, gameState: room.gameState });
+                this.broadcastViews(room, (to, gameState) => to.emit('player-left', { playerId: player.id, name: player.name, gameState }));
 
-                if (room.players.length === 1) {
-                    const winner = room.players[0];
-                    room.gameState.status = 'ended';
-                    room.gameState.winner = winner.id;
-                    this.io.to(roomId).emit('game-ended', { winnerId: winner.id, reason: 'All opponents left' });
+                const active = room.players.filter(p => !p.hasDropped);
+                if (!this.hasHumans(room)) {
+                    await this.abandonMatch(room, deck, active[0]?.id, 'Only bots left');
+                } else if (active.length === 1) {
+                    await this.endGame(room, deck, active[0].id, 'All opponents left');
                 }
             }
         } else {
             room.players.splice(playerIndex, 1);
+            this.record(room, { type: 'leave', playerId: player.id });
+            // Leaving before the first deal costs nothing; later the stake stays in the pot
+            const refund = room.gameState.status === 'waiting' && !!room.gameState.entryFee;
+            if (refund) room.gameState.pot! -= room.gameState.entryFee!;
             await this.saveRoom(room, deck);
-            this.io.to(roomId).emit('player-left', { playerId: socket.id, gameState: room.gameState });
+            if (refund) await this.refundStake(room, player.id);
+            this.broadcastViews(room, (to, gameState) => to.emit('player-left', { playerId: player.id, gameState }));
+
+            // Between deals of a match: nobody left to play the next one
+            const seated = room.players.filter(p => !p.isEliminated);
+            if (!this.hasHumans(room)) {
+                await this.abandonMatch(room, deck, seated[0]?.id, 'Only bots left');
+            } else if (room.gameState.status === 'deal-ended' && seated.length < 2) {
+                await this.abandonMatch(room, deck, seated[0]?.id, 'All opponents left');
+            }
         }
     }
+
+    // A refund that fails leaves the coins in the pot, where the ledger report shows them
+    private async refundStake(room: RoomData, playerId: string) {
+        try {
+            await Wallet.refund(room.gameState.matchId, playerId, room.gameState.entryFee!);
+        } catch (err) {
+            console.error(`Could not refund ${playerId} in room ${room.id}:`, err);
+        }
+    }
+
+    private hasHumans(room: RoomData): boolean {
+        return room.players.some(p => !p.bot);
+    }
+
+    // Ends the match early because too few players are left to carry on
+    private async abandonMatch(room: RoomData, deck: Deck, winnerId: string | undefined, reason: string) {
+        const state = room.gameState;
+        this.stopTurnClock(room);
+        room.players.forEach(p => p.isMyTurn = false);
+        state.status = 'ended';
+        state.nextDealAt = undefined;
+        state.matchWinner = winnerId;
+        this.record(room, { type: 'match-end', reason, winnerId });
+
+        await this.saveRoom(room, deck);
+        this.broadcastState(room, 'game-update');
+        this.io.to(room.id).emit('match-ended', { winnerId, reason, standings: this.getStandings(room) });
+        await this.closeRoom(room, reason, winnerId);
+    }
 }
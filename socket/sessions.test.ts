@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { signToken } from './auth';
+import { createSessionMiddleware } from './sessions';
+import { MemoryRoomStore } from './store';
+import { GameSocket, SocketData } from './types';
+
+const SECRET = 'test-secret';
+
+// Runs the middleware over a handshake and returns what it decided
+const connect = async (store: MemoryRoomStore, auth: Record<string, unknown>) => {
+    const socket = { handshake: { auth }, data: {} } as unknown as GameSocket;
+    let error: Error | undefined;
+    await createSessionMiddleware(store, { authSecret: SECRET })(socket, err => { error = err; });
+    return { data: socket.data as SocketData, error };
+};
+
+describe('createSessionMiddleware', () => {
+    it('gives a guest the same id back for their session token', async () => {
+        const store = new MemoryRoomStore();
+        const first = await connect(store, {});
+        const again = await connect(store, { sessionToken: first.data.sessionToken });
+
+        expect(again.data.playerId).toBe(first.data.playerId);
+        expect(again.data.sessionToken).toBe(first.data.sessionToken);
+    });
+
+    it('does not bind a session to a logged-in player', async () => {
+        const store = new MemoryRoomStore();
+        const guest = await connect(store, {});
+        const token = signToken({ playerId: 'account-1', username: 'alice' }, SECRET);
+
+        const loggedIn = await connect(store, { token, sessionToken: guest.data.sessionToken });
+        expect(loggedIn.data).toMatchObject({ playerId: 'account-1', username: 'alice' });
+        expect(loggedIn.data.sessionToken).toBeUndefined();
+
+        // After logging out the old session token is still just the guest
+        const loggedOut = await connect(store, { sessionToken: guest.data.sessionToken });
+        expect(loggedOut.data.playerId).toBe(guest.data.playerId);
+        expect(loggedOut.data.username).toBeUndefined();
+    });
+
+    it('turns away a login token that does not verify', async () => {
+        const token = signToken({ playerId: 'account-1', username: 'alice' }, 'other-secret');
+        const { error } = await connect(new MemoryRoomStore(), { token });
+        expect(error?.message).toBe('Unauthorized');
+    });
+});
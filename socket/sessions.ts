@@ -0,0 +1,53 @@
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { RoomStore } from './store';
+import { GameSocket } from './types';
+import { verifyToken } from './auth';
+
+const SESSION_TTL = 7 * 86400;
+
+export interface SessionOptions {
+    authSecret: string;
+    requireLogin?: boolean; // Turn away connections without a login token
+}
+
+// Guests are known by their player id only, so their name is derived from it
+const guestName = (playerId: string) => `Guest ${playerId.slice(0, 4).toUpperCase()}`;
+
+// Resolves who is connecting. A login token from the handshake fixes the player id
+// and name to the account; without one the session token resolves to a stable guest
+// id, or a new guest session is issued when it is missing or unknown. The client
+// keeps the session token and sends it again on every reconnect. Sessions are only
+// ever bound to guest ids: a session token is a bearer credential that outlives
+// logging out, so it must never stand in for an account.
+export const createSessionMiddleware = (store: RoomStore, options: SessionOptions) => async (socket: GameSocket, next: (err?: Error) => void) => {
+    try {
+        const authToken = socket.handshake.auth?.token;
+        const identity = typeof authToken === 'string' && authToken ? verifyToken(authToken, options.authSecret) : null;
+        if (authToken && !identity) return next(new Error('Unauthorized'));
+        if (!identity && options.requireLogin) return next(new Error('Login required'));
+
+        if (identity) {
+            socket.data.playerId = identity.playerId;
+            socket.data.name = identity.username;
+            socket.data.username = identity.username;
+            return next();
+        }
+
+        const token = socket.handshake.auth?.sessionToken;
+        const sessionPlayer = typeof token === 'string' ? await store.getSession(token) : null;
+        const playerId = sessionPlayer ?? uuidv4();
+        const sessionToken = sessionPlayer ? token : randomBytes(24).toString('base64url');
+
+        socket.data.playerId = playerId;
+        socket.data.sessionToken = sessionToken;
+        socket.data.name = guestName(playerId);
+
+        // Sliding expiry: every connection keeps the session alive
+        await store.setSession(sessionToken, playerId, SESSION_TTL);
+        next();
+    } catch (err) {
+        console.error("Session lookup failed:", err);
+        next(new Error('Session unavailable'));
+    }
+};
@@ -0,0 +1,184 @@
+import mongoose, { PipelineStage } from 'mongoose';
+import { z } from 'zod';
+import { DEFAULT_RATING } from '../lib/game/rating';
+import { Ledger, Match, User } from '../lib/db';
+import { GameError } from './errors';
+
+const PERIOD_MS = { daily: 86400000, weekly: 7 * 86400000 };
+const WIN_RATE_MIN_MATCHES = 5; // Keeps one lucky win off the top of the win rate board
+const RECENT_MATCHES = 10;
+
+export const leaderboardQuerySchema = z.object({
+    sort: z.enum(['rating', 'wins', 'winrate', 'coins']).default('rating'),
+    period: z.enum(['daily', 'weekly', 'all']).default('all'),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+
+export interface LeaderboardEntry {
+    rank: number;
+    username: string;
+    rating: number;
+    matchesPlayed: number;
+    matchesWon: number;
+    winRate: number;
+    coins: number; // Balance all time, coins won or lost over a shorter period
+}
+
+const SORT_FIELDS: Record<LeaderboardQuery['sort'], string> = {
+    rating: 'rating',
+    wins: 'matchesWon',
+    winrate: 'winRate',
+    coins: 'coins'
+};
+
+const requireDatabase = () => {
+    if (mongoose.connection.readyState !== 1) {
+        throw new GameError('UNAVAILABLE', 'Stats are unavailable right now, try again later');
+    }
+};
+
+// Rankings and profiles of registered players, read from the users, matches and
+// ledger collections
+export class PlayerStats {
+    // Current rating, or the starting one for new players and while MongoDB is down
+    static async rating(playerId: string): Promise<number> {
+        if (mongoose.connection.readyState !== 1) return DEFAULT_RATING;
+        try {
+            const user = await User.findOne({ playerId }, { rating: 1 }).lean<{ rating?: number }>();
+            return user?.rating ?? DEFAULT_RATING;
+        } catch (err) {
+            console.error(`Could not read the rating of ${playerId}:`, err);
+            return DEFAULT_RATING;
+        }
+    }
+
+    static async leaderboard(query: LeaderboardQuery): Promise<{ entries: LeaderboardEntry[], total: number }> {
+        requireDatabase();
+        const pipeline = query.period === 'all'
+            ? this.allTimePipeline()
+            : this.periodPipeline(new Date(Date.now() - PERIOD_MS[query.period]));
+        const model = query.period === 'all' ? User : Match;
+
+        const skip = (query.page - 1) * query.limit;
+        const [result] = await model.aggregate([
+            ...pipeline,
+            { $addFields: { winRate: { $cond: [{ $gt: ['$matchesPlayed', 0] }, { $divide: ['$matchesWon', '$matchesPlayed'] }, 0] } } },
+            ...(query.sort === 'winrate' ? [{ $match: { matchesPlayed: { $gte: WIN_RATE_MIN_MATCHES } } }] : []),
+            { $sort: { [SORT_FIELDS[query.sort]]: -1, rating: -1, username: 1 } },
+            {
+                $facet: {
+                    entries: [{ $skip: skip }, { $limit: query.limit }],
+                    total: [{ $count: 'count' }]
+                }
+            }
+        ]);
+
+        const entries = (result?.entries ?? []).map((e: Omit<LeaderboardEntry, 'rank'>, i: number) => ({
+            rank: skip + i + 1,
+            username: e.username,
+            rating: e.rating,
+            matchesPlayed: e.matchesPlayed,
+            matchesWon: e.matchesWon,
+            winRate: e.winRate,
+            coins: e.coins
+        }));
+        return { entries, total: result?.total[0]?.count ?? 0 };
+    }
+
+    static async profile(username: string) {
+        requireDatabase();
+        const user = await User.findOne({ username }).lean<{ playerId: string, username: string, rating?: number, coins: number, matchesPlayed: number, matchesWon: number, botMatchesPlayed?: number, botMatchesWon?: number, createdAt: Date }>();
+        if (!user?.playerId) throw new GameError('NOT_FOUND', 'No player with that name');
+
+        const [deadwood] = await Match.aggregate([
+            { $match: { 'players.playerId': user.playerId } },
+            { $unwind: '$players' },
+            { $match: { 'players.playerId': user.playerId } },
+            { $group: { _id: null, points: { $sum: '$players.deadwood' }, deals: { $sum: '$players.deadwoodDeals' } } }
+        ]);
+
+        const recent = await Match.find({ 'players.playerId': user.playerId })
+            .sort({ endedAt: -1 })
+            .limit(RECENT_MATCHES)
+            .lean<{ matchId: string, variant: string, winnerId?: string, reason: string, endedAt: Date, durationMs: number, players: { playerId: string, name: string, totalScore: number, place: number, ratingChange?: number }[] }[]>();
+
+        return {
+            username: user.username,
+            rating: user.rating ?? DEFAULT_RATING,
+            coins: user.coins,
+            matchesPlayed: user.matchesPlayed,
+            matchesWon: user.matchesWon,
+            winRate: user.matchesPlayed > 0 ? user.matchesWon / user.matchesPlayed : 0,
+            botMatchesPlayed: user.botMatchesPlayed ?? 0,
+            botMatchesWon: user.botMatchesWon ?? 0,
+            averageDeadwood: deadwood?.deals > 0 ? deadwood.points / deadwood.deals : null,
+            memberSince: user.createdAt,
+            recentMatches: recent.map(m => {
+                const me = m.players.find(p => p.playerId === user.playerId)!;
+                return {
+                    matchId: m.matchId,
+                    variant: m.variant,
+                    endedAt: m.endedAt,
+                    durationMs: m.durationMs,
+                    won: m.winnerId === user.playerId,
+                    place: me.place + 1,
+                    totalScore: me.totalScore,
+                    ratingChange: me.ratingChange,
+                    opponents: m.players.filter(p => p.playerId !== user.playerId).map(p => p.name)
+                };
+            })
+        };
+    }
+
+    private static allTimePipeline(): PipelineStage[] {
+        return [
+            { $match: { username: { $exists: true } } },
+            { $project: { _id: 0, username: 1, rating: { $ifNull: ['$rating', DEFAULT_RATING] }, matchesPlayed: 1, matchesWon: 1, coins: 1 } }
+        ];
+    }
+
+    // Matches that ended since the cutoff, per registered player, with the coins they
+    // won or lost at fee tables over the same time
+    private static periodPipeline(since: Date): PipelineStage[] {
+        return [
+            // Like the all time counters, matches with a bot at the table do not count
+            { $match: { endedAt: { $gte: since }, players: { $not: { $elemMatch: { bot: { $ne: null } } } } } },
+            { $unwind: '$players' },
+            { $match: { 'players.bot': null } },
+            {
+                $group: {
+                    _id: '$players.playerId',
+                    matchesPlayed: { $sum: 1 },
+                    matchesWon: { $sum: { $cond: [{ $eq: ['$winnerId', '$players.playerId'] }, 1, 0] } }
+                }
+            },
+            { $lookup: { from: User.collection.name, localField: '_id', foreignField: 'playerId', as: 'user' } },
+            { $unwind: '$user' },
+            { $match: { 'user.username': { $exists: true } } },
+            {
+                $lookup: {
+                    from: Ledger.collection.name,
+                    let: { account: { $concat: ['player:', '$_id'] } },
+                    pipeline: [
+                        { $match: { $expr: { $eq: ['$account', '$$account'] }, createdAt: { $gte: since }, kind: { $ne: 'grant' } } },
+                        { $group: { _id: null, amount: { $sum: '$amount' } } }
+                    ],
+                    as: 'coins'
+                }
+            },
+            {
+                $project: {
+                    _id: 0,
+                    username: '$user.username',
+                    rating: { $ifNull: ['$user.rating', DEFAULT_RATING] },
+                    matchesPlayed: 1,
+                    matchesWon: 1,
+                    coins: { $ifNull: [{ $first: '$coins.amount' }, 0] }
+                }
+            }
+        ];
+    }
+}
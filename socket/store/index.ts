@@ -0,0 +1,28 @@
+import { RoomStore } from './roomStore';
+import { MemoryRoomStore } from './memoryRoomStore';
+import { UpstashRoomStore } from './upstashRoomStore';
+import { IORedisRoomStore } from './ioredisRoomStore';
+
+export type { RoomStore, RoomData, QueueEntry, QueueRef } from './roomStore';
+export { RoomConflictError } from './roomStore';
+export { MemoryRoomStore, UpstashRoomStore, IORedisRoomStore };
+
+// ROOM_STORE picks the backend: memory | upstash | ioredis.
+// Without it, Upstash is used when its token is configured and memory otherwise.
+export const createRoomStore = (): RoomStore => {
+    const backend = process.env.ROOM_STORE || (process.env.REDIS_TOKEN ? 'upstash' : 'memory');
+
+    switch (backend) {
+        case 'upstash':
+            console.log("Room store: Upstash Redis");
+            return new UpstashRoomStore(process.env.REDIS_URL!, process.env.REDIS_TOKEN!);
+        case 'ioredis':
+            console.log("Room store: Redis (ioredis)");
+            return new IORedisRoomStore(process.env.REDIS_URL || 'redis://localhost:6379');
+        case 'memory':
+            console.log("Room store: in-memory (single instance only)");
+            return new MemoryRoomStore();
+        default:
+            throw new Error(`Unknown ROOM_STORE "${backend}" (expected memory, upstash or ioredis)`);
+    }
+};
@@ -0,0 +1,145 @@
+import Redis from 'ioredis';
+import { GameLogEntry, MatchResult } from '../../lib/game/types';
+import { RoomStore, RoomData, QueueEntry, QueueRef, keys, serializeEntry, safeParse, SAVE_ROOM_SCRIPT, POP_QUEUE_SCRIPT, TAKE_QUEUE_SCRIPT, EXPIRE_QUEUE_SCRIPT, CLAIM_TIMERS_SCRIPT } from './roomStore';
+
+export class IORedisRoomStore implements RoomStore {
+    private redis: Redis;
+
+    constructor(url: string) {
+        this.redis = new Redis(url);
+    }
+
+    async getRoom(roomId: string): Promise<RoomData | null> {
+        return safeParse<RoomData>(await this.redis.get(keys.room(roomId)));
+    }
+
+    async saveRoom(room: RoomData, ttl: number, expectedVersion: number, logEntries: GameLogEntry[]): Promise<boolean> {
+        const saved = await this.redis.eval(
+            SAVE_ROOM_SCRIPT, 2, keys.room(room.id), keys.log(room.id),
+            JSON.stringify(room), expectedVersion, ttl, ...logEntries.map(e => JSON.stringify(e))
+        );
+        return saved === 1;
+    }
+
+    async expireRoom(roomId: string, ttl: number): Promise<void> {
+        await this.redis.expire(keys.room(roomId), ttl);
+        await this.redis.expire(keys.log(roomId), ttl);
+    }
+
+    async getLog(roomId: string): Promise<GameLogEntry[]> {
+        const raw = await this.redis.lrange(keys.log(roomId), 0, -1);
+        return raw.map(r => safeParse<GameLogEntry>(r)).filter((e): e is GameLogEntry => !!e);
+    }
+
+    async archiveLog(matchId: string, entries: GameLogEntry[], ttl: number): Promise<void> {
+        await this.redis.set(keys.matchLog(matchId), JSON.stringify(entries), 'EX', ttl);
+    }
+
+    async getArchivedLog(matchId: string): Promise<GameLogEntry[] | null> {
+        return safeParse<GameLogEntry[]>(await this.redis.get(keys.matchLog(matchId)));
+    }
+
+    async bufferMatchResult(result: MatchResult): Promise<void> {
+        await this.redis.hset(keys.matchResults, result.matchId, JSON.stringify(result));
+    }
+
+    async getBufferedMatchResults(): Promise<MatchResult[]> {
+        const all = await this.redis.hgetall(keys.matchResults);
+        return Object.values(all).map(r => safeParse<MatchResult>(r)).filter((r): r is MatchResult => !!r);
+    }
+
+    async deleteBufferedMatchResult(matchId: string): Promise<void> {
+        await this.redis.hdel(keys.matchResults, matchId);
+    }
+
+    async pushToQueue(gameSize: number, entry: QueueEntry): Promise<number> {
+        return this.redis.rpush(keys.queue(gameSize), serializeEntry(entry));
+    }
+
+    async popFromQueue(gameSize: number, count: number): Promise<QueueEntry[]> {
+        return this.parseEntries(await this.redis.eval(POP_QUEUE_SCRIPT, 1, keys.queue(gameSize), count) as string[]);
+    }
+
+    async takeFromQueue(gameSize: number, entries: QueueEntry[]): Promise<boolean> {
+        const taken = await this.redis.eval(TAKE_QUEUE_SCRIPT, 1, keys.queue(gameSize), ...entries.map(serializeEntry));
+        return taken === 1;
+    }
+
+    async requeue(gameSize: number, entries: QueueEntry[]): Promise<void> {
+        if (entries.length === 0) return;
+        // lpush adds one element at a time to the head, so push the last one first
+        await this.redis.lpush(keys.queue(gameSize), ...[...entries].reverse().map(serializeEntry));
+    }
+
+    async removeFromQueue(gameSize: number, entry: QueueEntry): Promise<void> {
+        await this.redis.lrem(keys.queue(gameSize), 0, serializeEntry(entry));
+    }
+
+    async getQueue(gameSize: number): Promise<QueueEntry[]> {
+        return this.parseEntries(await this.redis.lrange(keys.queue(gameSize), 0, -1));
+    }
+
+    async removeExpiredFromQueue(gameSize: number, joinedBefore: number): Promise<QueueEntry[]> {
+        return this.parseEntries(await this.redis.eval(EXPIRE_QUEUE_SCRIPT, 1, keys.queue(gameSize), joinedBefore) as string[]);
+    }
+
+    private parseEntries(raw: string[] | null): QueueEntry[] {
+        return (raw || []).map(r => safeParse<QueueEntry>(r)).filter((e): e is QueueEntry => !!e);
+    }
+
+    async claimQueueRef(playerId: string, ref: QueueRef, ttl: number): Promise<boolean> {
+        return await this.redis.set(keys.queueRef(playerId), JSON.stringify(ref), 'EX', ttl, 'NX') === 'OK';
+    }
+
+    async getQueueRef(playerId: string): Promise<QueueRef | null> {
+        return safeParse<QueueRef>(await this.redis.get(keys.queueRef(playerId)));
+    }
+
+    async deleteQueueRef(playerId: string): Promise<void> {
+        await this.redis.del(keys.queueRef(playerId));
+    }
+
+    async setRoomTimer(roomId: string, dueAt: number): Promise<void> {
+        await this.redis.zadd(keys.timers, dueAt, roomId);
+    }
+
+    async clearRoomTimer(roomId: string): Promise<void> {
+        await this.redis.zrem(keys.timers, roomId);
+    }
+
+    async claimDueTimers(now: number, leaseUntil: number): Promise<string[]> {
+        return await this.redis.eval(CLAIM_TIMERS_SCRIPT, 1, keys.timers, now, leaseUntil) as string[];
+    }
+
+    async setSession(token: string, playerId: string, ttl: number): Promise<void> {
+        await this.redis.set(keys.session(token), playerId, 'EX', ttl);
+    }
+
+    async getSession(token: string): Promise<string | null> {
+        return this.redis.get(keys.session(token));
+    }
+
+    async setSocketPlayer(socketId: string, playerId: string, ttl: number): Promise<void> {
+        await this.redis.set(keys.socket(socketId), playerId, 'EX', ttl);
+    }
+
+    async getSocketPlayer(socketId: string): Promise<string | null> {
+        return this.redis.get(keys.socket(socketId));
+    }
+
+    async deleteSocketPlayer(socketId: string): Promise<void> {
+        await this.redis.del(keys.socket(socketId));
+    }
+
+    async setPlayerRoom(playerId: string, roomId: string, ttl: number): Promise<void> {
+        await this.redis.set(keys.playerRoom(playerId), roomId, 'EX', ttl);
+    }
+
+    async getPlayerRoom(playerId: string): Promise<string | null> {
+        return this.redis.get(keys.playerRoom(playerId));
+    }
+
+    async deletePlayerRoom(playerId: string): Promise<void> {
+        await this.redis.del(keys.playerRoom(playerId));
+    }
+}
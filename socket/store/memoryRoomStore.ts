@@ -0,0 +1,186 @@
+import { GameLogEntry, MatchResult } from '../../lib/game/types';
+import { RoomStore, RoomData, QueueEntry, QueueRef, serializeEntry } from './roomStore';
+
+interface Expiring<T> {
+    value: T;
+    expiresAt: number;
+}
+
+// Process-local store for development and tests. Values are cloned through JSON
+// so callers never share objects with the store, the same as with Redis.
+export class MemoryRoomStore implements RoomStore {
+    private rooms = new Map<string, Expiring<string>>();
+    private logs = new Map<string, Expiring<string[]>>();
+    private archivedLogs = new Map<string, Expiring<string>>();
+    private queues = new Map<number, QueueEntry[]>();
+    private queueRefs = new Map<string, Expiring<QueueRef>>();
+    private sessions = new Map<string, Expiring<string>>();
+    private sockets = new Map<string, Expiring<string>>();
+    private playerRooms = new Map<string, Expiring<string>>();
+    private timers = new Map<string, number>();
+    private matchResults = new Map<string, string>();
+
+    private read<T>(map: Map<string, Expiring<T>>, key: string): T | null {
+        const item = map.get(key);
+        if (!item) return null;
+        if (item.expiresAt <= Date.now()) {
+            map.delete(key);
+            return null;
+        }
+        return item.value;
+    }
+
+    private write<T>(map: Map<string, Expiring<T>>, key: string, value: T, ttl: number) {
+        map.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+    }
+
+    async getRoom(roomId: string): Promise<RoomData | null> {
+        const raw = this.read(this.rooms, roomId);
+        return raw ? JSON.parse(raw) : null;
+    }
+
+    async saveRoom(room: RoomData, ttl: number, expectedVersion: number, logEntries: GameLogEntry[]): Promise<boolean> {
+        const raw = this.read(this.rooms, room.id);
+        const version = raw ? (JSON.parse(raw) as RoomData).version ?? 0 : 0;
+        if (version !== expectedVersion) return false;
+        this.write(this.rooms, room.id, JSON.stringify(room), ttl);
+        if (logEntries.length > 0) {
+            const log = this.read(this.logs, room.id) || [];
+            this.write(this.logs, room.id, [...log, ...logEntries.map(e => JSON.stringify(e))], ttl);
+        }
+        return true;
+    }
+
+    async expireRoom(roomId: string, ttl: number): Promise<void> {
+        const raw = this.read(this.rooms, roomId);
+        if (raw) this.write(this.rooms, roomId, raw, ttl);
+        const log = this.read(this.logs, roomId);
+        if (log) this.write(this.logs, roomId, log, ttl);
+    }
+
+    async getLog(roomId: string): Promise<GameLogEntry[]> {
+        return (this.read(this.logs, roomId) || []).map(e => JSON.parse(e));
+    }
+
+    async archiveLog(matchId: string, entries: GameLogEntry[], ttl: number): Promise<void> {
+        this.write(this.archivedLogs, matchId, JSON.stringify(entries), ttl);
+    }
+
+    async getArchivedLog(matchId: string): Promise<GameLogEntry[] | null> {
+        const raw = this.read(this.archivedLogs, matchId);
+        return raw ? JSON.parse(raw) : null;
+    }
+
+    async bufferMatchResult(result: MatchResult): Promise<void> {
+        this.matchResults.set(result.matchId, JSON.stringify(result));
+    }
+
+    async getBufferedMatchResults(): Promise<MatchResult[]> {
+        return Array.from(this.matchResults.values()).map(r => JSON.parse(r));
+    }
+
+    async deleteBufferedMatchResult(matchId: string): Promise<void> {
+        this.matchResults.delete(matchId);
+    }
+
+    async pushToQueue(gameSize: number, entry: QueueEntry): Promise<number> {
+        const queue = this.queues.get(gameSize) || [];
+        queue.push({ ...entry });
+        this.queues.set(gameSize, queue);
+        return queue.length;
+    }
+
+    async popFromQueue(gameSize: number, count: number): Promise<QueueEntry[]> {
+        const queue = this.queues.get(gameSize) || [];
+        return queue.length < count ? [] : queue.splice(0, count);
+    }
+
+    async takeFromQueue(gameSize: number, entries: QueueEntry[]): Promise<boolean> {
+        const queue = this.queues.get(gameSize) || [];
+        const wanted = new Set(entries.map(serializeEntry));
+        const remaining = queue.filter(e => !wanted.has(serializeEntry(e)));
+        if (queue.length - remaining.length !== wanted.size) return false;
+        this.queues.set(gameSize, remaining);
+        return true;
+    }
+
+    async requeue(gameSize: number, entries: QueueEntry[]): Promise<void> {
+        const queue = this.queues.get(gameSize) || [];
+        this.queues.set(gameSize, [...entries.map(e => ({ ...e })), ...queue]);
+    }
+
+    async removeFromQueue(gameSize: number, entry: QueueEntry): Promise<void> {
+        const queue = this.queues.get(gameSize) || [];
+        this.queues.set(gameSize, queue.filter(e => serializeEntry(e) !== serializeEntry(entry)));
+    }
+
+    async getQueue(gameSize: number): Promise<QueueEntry[]> {
+        return (this.queues.get(gameSize) || []).map(e => ({ ...e }));
+    }
+
+    async removeExpiredFromQueue(gameSize: number, joinedBefore: number): Promise<QueueEntry[]> {
+        const queue = this.queues.get(gameSize) || [];
+        this.queues.set(gameSize, queue.filter(e => e.joinedAt >= joinedBefore));
+        return queue.filter(e => e.joinedAt < joinedBefore);
+    }
+
+    async claimQueueRef(playerId: string, ref: QueueRef, ttl: number): Promise<boolean> {
+        if (this.read(this.queueRefs, playerId)) return false;
+        this.write(this.queueRefs, playerId, ref, ttl);
+        return true;
+    }
+
+    async getQueueRef(playerId: string): Promise<QueueRef | null> {
+        return this.read(this.queueRefs, playerId);
+    }
+
+    async deleteQueueRef(playerId: string): Promise<void> {
+        this.queueRefs.delete(playerId);
+    }
+
+    async setRoomTimer(roomId: string, dueAt: number): Promise<void> {
+        this.timers.set(roomId, dueAt);
+    }
+
+    async clearRoomTimer(roomId: string): Promise<void> {
+        this.timers.delete(roomId);
+    }
+
+    async claimDueTimers(now: number, leaseUntil: number): Promise<string[]> {
+        const due = Array.from(this.timers).filter(([, dueAt]) => dueAt <= now).map(([roomId]) => roomId);
+        due.forEach(roomId => this.timers.set(roomId, leaseUntil));
+        return due;
+    }
+
+    async setSession(token: string, playerId: string, ttl: number): Promise<void> {
+        this.write(this.sessions, token, playerId, ttl);
+    }
+
+    async getSession(token: string): Promise<string | null> {
+        return this.read(this.sessions, token);
+    }
+
+    async setSocketPlayer(socketId: string, playerId: string, ttl: number): Promise<void> {
+        this.write(this.sockets, socketId, playerId, ttl);
+    }
+
+    async getSocketPlayer(socketId: string): Promise<string | null> {
+        return this.read(this.sockets, socketId);
+    }
+
+    async deleteSocketPlayer(socketId: string): Promise<void> {
+        this.sockets.delete(socketId);
+    }
+
+    async setPlayerRoom(playerId: string, roomId: string, ttl: number): Promise<void> {
+        this.write(this.playerRooms, playerId, roomId, ttl);
+    }
+
+    async getPlayerRoom(playerId: string): Promise<string | null> {
+        return this.read(this.playerRooms, playerId);
+    }
+
+    async deletePlayerRoom(playerId: string): Promise<void> {
+        this.playerRooms.delete(playerId);
+    }
+}
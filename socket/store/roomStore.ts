@@ -0,0 +1,178 @@
+import { GameState, PlayerState, Card, GameLogEntry, MatchResult } from '../../lib/game/types';
+
+export interface RoomData {
+    id: string;
+    players: PlayerState[];
+    gameState: GameState;
+    deckState: { cards: Card[] };
+    version: number; // Bumped on every save, see RoomStore.saveRoom
+    logSeq: number; // Sequence number of the next action log entry
+    serverSeed: string; // Secret behind gameState.seedCommitment, never sent to clients
+}
+
+// A room was saved by someone else between reading and writing it
+export class RoomConflictError extends Error {
+    constructor(roomId: string) {
+        super(`Room ${roomId} was modified concurrently`);
+        this.name = 'RoomConflictError';
+    }
+}
+
+export interface QueueEntry {
+    playerId: string;
+    name: string;
+    joinedAt: number; // Epoch ms, for the queue timeout
+    rating?: number; // For matching players of similar strength
+}
+
+// Remembers which queue a player sits in; at most one per player
+export interface QueueRef {
+    gameSize: number;
+    entry: QueueEntry;
+}
+
+// Everything kept outside the process: rooms, matchmaking queues, player sessions
+// and the socket -> player -> room mappings. TTLs are in seconds.
+export interface RoomStore {
+    getRoom(roomId: string): Promise<RoomData | null>;
+    // Compare-and-set: writes only while the stored version still equals expectedVersion
+    // (a missing room counts as version 0) and reports whether the write happened. The
+    // actions accepted since the last save are appended to the room's log in the same
+    // atomic write, so the log never falls behind or out of order.
+    saveRoom(room: RoomData, ttl: number, expectedVersion: number, logEntries: GameLogEntry[]): Promise<boolean>;
+    // Expires the room together with its action log
+    expireRoom(roomId: string, ttl: number): Promise<void>;
+
+    // Append-only action log of a room, and finished logs kept per match for replays
+    getLog(roomId: string): Promise<GameLogEntry[]>;
+    archiveLog(matchId: string, entries: GameLogEntry[], ttl: number): Promise<void>;
+    getArchivedLog(matchId: string): Promise<GameLogEntry[] | null>;
+
+    // Finished matches not yet confirmed written to MongoDB, keyed by match id
+    bufferMatchResult(result: MatchResult): Promise<void>;
+    getBufferedMatchResults(): Promise<MatchResult[]>;
+    deleteBufferedMatchResult(matchId: string): Promise<void>;
+
+    pushToQueue(gameSize: number, entry: QueueEntry): Promise<number>;
+    // Atomically takes the first count entries, or nothing if fewer are waiting
+    popFromQueue(gameSize: number, count: number): Promise<QueueEntry[]>;
+    // Atomically removes exactly these entries, or nothing if any of them is gone
+    takeFromQueue(gameSize: number, entries: QueueEntry[]): Promise<boolean>;
+    // Puts popped entries back at the front, in their original order
+    requeue(gameSize: number, entries: QueueEntry[]): Promise<void>;
+    removeFromQueue(gameSize: number, entry: QueueEntry): Promise<void>;
+    getQueue(gameSize: number): Promise<QueueEntry[]>;
+    // Atomically removes and returns the entries that joined before the cutoff
+    removeExpiredFromQueue(gameSize: number, joinedBefore: number): Promise<QueueEntry[]>;
+
+    // Set-if-absent: false when the player already waits in a queue
+    claimQueueRef(playerId: string, ref: QueueRef, ttl: number): Promise<boolean>;
+    getQueueRef(playerId: string): Promise<QueueRef | null>;
+    deleteQueueRef(playerId: string): Promise<void>;
+
+    // One pending deadline per room. Claiming moves the due ones to leaseUntil, so only
+    // one server acts on them and a server that dies before rescheduling does not lose them.
+    setRoomTimer(roomId: string, dueAt: number): Promise<void>;
+    clearRoomTimer(roomId: string): Promise<void>;
+    claimDueTimers(now: number, leaseUntil: number): Promise<string[]>;
+
+    setSession(token: string, playerId: string, ttl: number): Promise<void>;
+    getSession(token: string): Promise<string | null>;
+
+    setSocketPlayer(socketId: string, playerId: string, ttl: number): Promise<void>;
+    getSocketPlayer(socketId: string): Promise<string | null>;
+    deleteSocketPlayer(socketId: string): Promise<void>;
+
+    setPlayerRoom(playerId: string, roomId: string, ttl: number): Promise<void>;
+    getPlayerRoom(playerId: string): Promise<string | null>;
+    deletePlayerRoom(playerId: string): Promise<void>;
+}
+
+// Key layout shared by the Redis backends
+export const keys = {
+    room: (roomId: string) => `room:${roomId}`,
+    log: (roomId: string) => `log:${roomId}`,
+    matchLog: (matchId: string) => `match_log:${matchId}`,
+    queue: (gameSize: number) => `queue:${gameSize}`,
+    queueRef: (playerId: string) => `queue_ref:${playerId}`,
+    session: (token: string) => `session:${token}`,
+    socket: (socketId: string) => `socket:${socketId}`,
+    playerRoom: (playerId: string) => `player_room:${playerId}`,
+    timers: 'room_timers', // Sorted set: room id scored by due time
+    matchResults: 'match_results', // Hash: match id -> result waiting for MongoDB
+};
+
+// Atomic compare-and-set for the Redis backends, appending to the log with the save.
+// KEYS[1] room key, KEYS[2] log key, ARGV[1] room JSON, ARGV[2] expected version,
+// ARGV[3] ttl, ARGV[4..] serialized log entries
+export const SAVE_ROOM_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+local version = 0
+if current then version = cjson.decode(current).version or 0 end
+if version ~= tonumber(ARGV[2]) then return 0 end
+redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[3])
+if #ARGV > 3 then
+    redis.call('RPUSH', KEYS[2], unpack(ARGV, 4))
+    redis.call('EXPIRE', KEYS[2], ARGV[3])
+end
+return 1
+`;
+
+// KEYS[1] queue, ARGV[1] count. All or nothing, so concurrent matchers never split a table.
+export const POP_QUEUE_SCRIPT = `
+local count = tonumber(ARGV[1])
+if redis.call('LLEN', KEYS[1]) < count then return {} end
+local entries = redis.call('LRANGE', KEYS[1], 0, count - 1)
+redis.call('LTRIM', KEYS[1], count, -1)
+return entries
+`;
+
+// KEYS[1] queue, ARGV serialized entries. All or nothing, like POP_QUEUE_SCRIPT.
+export const TAKE_QUEUE_SCRIPT = `
+for _, raw in ipairs(ARGV) do
+    if not redis.call('LPOS', KEYS[1], raw) then return 0 end
+end
+for _, raw in ipairs(ARGV) do
+    redis.call('LREM', KEYS[1], 1, raw)
+end
+return 1
+`;
+
+// KEYS[1] queue, ARGV[1] cutoff in epoch ms
+export const EXPIRE_QUEUE_SCRIPT = `
+local expired = {}
+for _, raw in ipairs(redis.call('LRANGE', KEYS[1], 0, -1)) do
+    local ok, entry = pcall(cjson.decode, raw)
+    if ok and tonumber(entry.joinedAt) < tonumber(ARGV[1]) then
+        redis.call('LREM', KEYS[1], 1, raw)
+        table.insert(expired, raw)
+    end
+end
+return expired
+`;
+
+// KEYS[1] timers, ARGV[1] now, ARGV[2] lease end. Due rooms come back and are pushed
+// to the lease end in one step, so two servers never claim the same one.
+export const CLAIM_TIMERS_SCRIPT = `
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], 0, ARGV[1])
+for _, roomId in ipairs(due) do
+    redis.call('ZADD', KEYS[1], ARGV[2], roomId)
+end
+return due
+`;
+
+// Queue entries are compared by value when removed, so they are always written the same way
+export const serializeEntry = (entry: QueueEntry) => JSON.stringify({ playerId: entry.playerId, name: entry.name, joinedAt: entry.joinedAt, rating: entry.rating });
+
+export const safeParse = <T>(data: string | T | null): T | null => {
+    if (data === null || data === undefined) return null;
+    if (typeof data === 'string') {
+        try {
+            return JSON.parse(data);
+        } catch (e) {
+            console.error("Failed to parse Redis data:", data, e);
+            return null;
+        }
+    }
+    return data; // Already an object (Upstash behavior)
+};
@@ -0,0 +1,156 @@
+import { Redis } from '@upstash/redis';
+import { GameLogEntry, MatchResult } from '../../lib/game/types';
+import { RoomStore, RoomData, QueueEntry, QueueRef, keys, serializeEntry, safeParse, SAVE_ROOM_SCRIPT, POP_QUEUE_SCRIPT, TAKE_QUEUE_SCRIPT, EXPIRE_QUEUE_SCRIPT, CLAIM_TIMERS_SCRIPT } from './roomStore';
+
+export class UpstashRoomStore implements RoomStore {
+    private redis: Redis;
+
+    constructor(url: string, token: string) {
+        this.redis = new Redis({ url, token });
+    }
+
+    async getRoom(roomId: string): Promise<RoomData | null> {
+        return safeParse(await this.redis.get<RoomData | string>(keys.room(roomId)));
+    }
+
+    async saveRoom(room: RoomData, ttl: number, expectedVersion: number, logEntries: GameLogEntry[]): Promise<boolean> {
+        const saved = await this.redis.eval<string[], number>(
+            SAVE_ROOM_SCRIPT,
+            [keys.room(room.id), keys.log(room.id)],
+            [JSON.stringify(room), String(expectedVersion), String(ttl), ...logEntries.map(e => JSON.stringify(e))]
+        );
+        return saved === 1;
+    }
+
+    async expireRoom(roomId: string, ttl: number): Promise<void> {
+        await this.redis.expire(keys.room(roomId), ttl);
+        await this.redis.expire(keys.log(roomId), ttl);
+    }
+
+    async getLog(roomId: string): Promise<GameLogEntry[]> {
+        const raw = await this.redis.lrange<string | GameLogEntry>(keys.log(roomId), 0, -1);
+        return raw.map(r => safeParse<GameLogEntry>(r)).filter((e): e is GameLogEntry => !!e);
+    }
+
+    async archiveLog(matchId: string, entries: GameLogEntry[], ttl: number): Promise<void> {
+        await this.redis.set(keys.matchLog(matchId), JSON.stringify(entries), { ex: ttl });
+    }
+
+    async getArchivedLog(matchId: string): Promise<GameLogEntry[] | null> {
+        return safeParse(await this.redis.get<GameLogEntry[] | string>(keys.matchLog(matchId)));
+    }
+
+    async bufferMatchResult(result: MatchResult): Promise<void> {
+        await this.redis.hset(keys.matchResults, { [result.matchId]: JSON.stringify(result) });
+    }
+
+    async getBufferedMatchResults(): Promise<MatchResult[]> {
+        const all = await this.redis.hgetall<Record<string, MatchResult | string>>(keys.matchResults);
+        return Object.values(all || {}).map(r => safeParse(r)).filter((r): r is MatchResult => !!r);
+    }
+
+    async deleteBufferedMatchResult(matchId: string): Promise<void> {
+        await this.redis.hdel(keys.matchResults, matchId);
+    }
+
+    async pushToQueue(gameSize: number, entry: QueueEntry): Promise<number> {
+        return this.redis.rpush(keys.queue(gameSize), serializeEntry(entry));
+    }
+
+    async popFromQueue(gameSize: number, count: number): Promise<QueueEntry[]> {
+        const raw = await this.redis.eval<string[], (string | QueueEntry)[]>(POP_QUEUE_SCRIPT, [keys.queue(gameSize)], [String(count)]);
+        return this.parseEntries(raw);
+    }
+
+    async takeFromQueue(gameSize: number, entries: QueueEntry[]): Promise<boolean> {
+        const taken = await this.redis.eval<string[], number>(TAKE_QUEUE_SCRIPT, [keys.queue(gameSize)], entries.map(serializeEntry));
+        return taken === 1;
+    }
+
+    async requeue(gameSize: number, entries: QueueEntry[]): Promise<void> {
+        if (entries.length === 0) return;
+        // lpush adds one element at a time to the head, so push the last one first
+        await this.redis.lpush(keys.queue(gameSize), ...[...entries].reverse().map(serializeEntry));
+    }
+
+    async removeFromQueue(gameSize: number, entry: QueueEntry): Promise<void> {
+        // Upstash Redis lrem expects (key, count, element)
+        await this.redis.lrem(keys.queue(gameSize), 0, serializeEntry(entry));
+    }
+
+    async getQueue(gameSize: number): Promise<QueueEntry[]> {
+        return this.parseEntries(await this.redis.lrange<string | QueueEntry>(keys.queue(gameSize), 0, -1));
+    }
+
+    async removeExpiredFromQueue(gameSize: number, joinedBefore: number): Promise<QueueEntry[]> {
+        const raw = await this.redis.eval<string[], (string | QueueEntry)[]>(EXPIRE_QUEUE_SCRIPT, [keys.queue(gameSize)], [String(joinedBefore)]);
+        return this.parseEntries(raw);
+    }
+
+    private parseEntries(raw: (string | QueueEntry)[] | null): QueueEntry[] {
+        return (raw || []).map(r => safeParse<QueueEntry>(r)).filter((e): e is QueueEntry => !!e);
+    }
+
+    async claimQueueRef(playerId: string, ref: QueueRef, ttl: number): Promise<boolean> {
+        return await this.redis.set(keys.queueRef(playerId), JSON.stringify(ref), { ex: ttl, nx: true }) === 'OK';
+    }
+
+    async getQueueRef(playerId: string): Promise<QueueRef | null> {
+        return safeParse(await this.redis.get<QueueRef | string>(keys.queueRef(playerId)));
+    }
+
+    async deleteQueueRef(playerId: string): Promise<void> {
+        await this.redis.del(keys.queueRef(playerId));
+    }
+
+    async setRoomTimer(roomId: string, dueAt: number): Promise<void> {
+        await this.redis.zadd(keys.timers, { score: dueAt, member: roomId });
+    }
+
+    async clearRoomTimer(roomId: string): Promise<void> {
+        await this.redis.zrem(keys.timers, roomId);
+    }
+
+    async claimDueTimers(now: number, leaseUntil: number): Promise<string[]> {
+        const due = await this.redis.eval<string[], (string | number)[]>(CLAIM_TIMERS_SCRIPT, [keys.timers], [String(now), String(leaseUntil)]);
+        return due.map(String);
+    }
+
+    // Upstash parses stored values as JSON, so plain ids are read back through String()
+    private async getString(key: string): Promise<string | null> {
+        const value = await this.redis.get<string>(key);
+        return value ? String(value) : null;
+    }
+
+    async setSession(token: string, playerId: string, ttl: number): Promise<void> {
+        await this.redis.set(keys.session(token), playerId, { ex: ttl });
+    }
+
+    async getSession(token: string): Promise<string | null> {
+        return this.getString(keys.session(token));
+    }
+
+    async setSocketPlayer(socketId: string, playerId: string, ttl: number): Promise<void> {
+        await this.redis.set(keys.socket(socketId), playerId, { ex: ttl });
+    }
+
+    async getSocketPlayer(socketId: string): Promise<string | null> {
+        return this.getString(keys.socket(socketId));
+    }
+
+    async deleteSocketPlayer(socketId: string): Promise<void> {
+        await this.redis.del(keys.socket(socketId));
+    }
+
+    async setPlayerRoom(playerId: string, roomId: string, ttl: number): Promise<void> {
+        await this.redis.set(keys.playerRoom(playerId), roomId, { ex: ttl });
+    }
+
+    async getPlayerRoom(playerId: string): Promise<string | null> {
+        return this.getString(keys.playerRoom(playerId));
+    }
+
+    async deletePlayerRoom(playerId: string): Promise<void> {
+        await this.redis.del(keys.playerRoom(playerId));
+    }
+}
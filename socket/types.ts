@@ -0,0 +1,15 @@
+import { Server, Socket, BroadcastOperator } from 'socket.io';
+import { ClientToServerEvents, ServerToClientEvents } from '../lib/socket/events';
+
+// Filled in by the session middleware before the connection is accepted
+export interface SocketData {
+    playerId: string;
+    sessionToken?: string; // Guests only; logged-in players are known by their login token
+    name: string; // Display name at tables: the username, or a guest name
+    username?: string; // Set when the handshake carried a valid login token
+    spectating?: string; // Room this connection is watching
+}
+
+export type GameServer = Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+export type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+export type GameBroadcast = BroadcastOperator<ServerToClientEvents, SocketData>;
@@ -0,0 +1,154 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { MatchResult } from '../lib/game/types';
+import { Ledger, User } from '../lib/db';
+import { GameError } from './errors';
+
+const HOUSE = 'house'; // Collects the rake
+const MINT = 'mint'; // Source of starting balances, runs negative
+
+const playerAccount = (playerId: string) => `player:${playerId}`;
+const potAccount = (matchId: string) => `pot:${matchId}`;
+
+export interface LedgerReport {
+    total: number; // Sum over every account, zero unless rows were lost
+    mismatched: { playerId: string, coins: number, ledger: number }[];
+    openPots: { matchId: string, balance: number }[]; // Stakes not yet paid out or refunded
+}
+
+// Coin movements for tables with an entry fee. Each one is a ledger transfer and
+// the matching change to User.coins in a single transaction, so the cached
+// balances can always be rebuilt from the ledger.
+export class Wallet {
+    // Moves the entry fee from the player into the match pot
+    static async reserve(matchId: string, playerId: string, amount: number) {
+        await this.inTransaction(async session => {
+            await this.openAccount(playerId, session);
+            await this.transfer(session, `stake:${matchId}:${playerId}:${uuidv4()}`, playerAccount(playerId), potAccount(matchId), amount, 'stake', matchId);
+        });
+    }
+
+    // Hands a stake back, for players who leave before the match starts
+    static async refund(matchId: string, playerId: string, amount: number) {
+        await this.inTransaction(async session => {
+            await this.transfer(session, `refund:${matchId}:${playerId}:${uuidv4()}`, potAccount(matchId), playerAccount(playerId), amount, 'refund', matchId);
+        });
+    }
+
+    // Pays out whatever is in the pot, forfeited stakes included, by the result's
+    // shares after the rake. With nobody to pay every stake goes back to whoever
+    // paid it. Runs inside the caller's transaction and returns the pot.
+    static async settle(session: ClientSession, result: MatchResult): Promise<number> {
+        const pot = await this.balance(potAccount(result.matchId), session);
+        if (pot <= 0) return 0;
+
+        const shares = Object.entries(result.shares ?? {}).filter(([, share]) => share > 0);
+        if (shares.length === 0) {
+            await this.refundStakes(session, result.matchId);
+            return pot;
+        }
+
+        const rake = Math.floor(pot * (result.rakePercent ?? 0) / 100);
+        if (rake > 0) {
+            await this.transfer(session, `rake:${result.matchId}`, potAccount(result.matchId), HOUSE, rake, 'rake', result.matchId);
+        }
+
+        const prize = pot - rake;
+        const totalShare = shares.reduce((sum, [, share]) => sum + share, 0);
+        const payouts = shares.map(([playerId, share]) => ({ playerId, amount: Math.floor(prize * share / totalShare) }));
+        // Coins lost to rounding go to the first share
+        if (payouts.length > 0) payouts[0].amount += prize - payouts.reduce((sum, p) => sum + p.amount, 0);
+
+        for (const { playerId, amount } of payouts) {
+            if (amount <= 0) continue;
+            await this.transfer(session, `payout:${result.matchId}:${playerId}`, potAccount(result.matchId), playerAccount(playerId), amount, 'payout', result.matchId);
+        }
+        return pot;
+    }
+
+    // Compares every cached balance with the ledger
+    static async reconcile(): Promise<LedgerReport> {
+        const balances: { _id: string, balance: number }[] = await Ledger.aggregate([
+            { $group: { _id: '$account', balance: { $sum: '$amount' } } }
+        ]);
+        const byAccount = new Map(balances.map(b => [b._id, b.balance]));
+
+        const mismatched: LedgerReport['mismatched'] = [];
+        const users: { playerId: string, coins: number }[] = await User.find({ playerId: { $exists: true } }, { playerId: 1, coins: 1 }).lean();
+        for (const user of users) {
+            const ledger = byAccount.get(playerAccount(user.playerId));
+            // Accounts only enter the ledger the first time coins move
+            if (ledger !== undefined && ledger !== user.coins) mismatched.push({ playerId: user.playerId, coins: user.coins, ledger });
+        }
+
+        return {
+            total: balances.reduce((sum, b) => sum + b.balance, 0),
+            mismatched,
+            openPots: balances
+                .filter(b => b._id.startsWith('pot:') && b.balance !== 0)
+                .map(b => ({ matchId: b._id.slice('pot:'.length), balance: b.balance }))
+        };
+    }
+
+    private static async inTransaction(work: (session: ClientSession) => Promise<void>) {
+        if (mongoose.connection.readyState !== 1) {
+            throw new GameError('UNAVAILABLE', 'Coins are unavailable right now, try again later');
+        }
+        const session = await mongoose.startSession();
+        try {
+            await session.withTransaction(() => work(session));
+        } finally {
+            await session.endSession();
+        }
+    }
+
+    // Coins belong to registered accounts only: a guest gets a new player id with each
+    // session and could otherwise mint a fresh starting balance every time. The
+    // starting balance enters the ledger as a grant from the mint, once per account.
+    private static async openAccount(playerId: string, session: ClientSession) {
+        const user = await User.findOne({ playerId }).session(session);
+        if (!user?.username) throw new GameError('UNAUTHORIZED', 'Log in to play at a table with an entry fee');
+        if (await Ledger.exists({ account: playerAccount(playerId) }).session(session)) return;
+        await Ledger.create([
+            { transferId: `grant:${playerId}`, account: MINT, amount: -user.coins, kind: 'grant' },
+            { transferId: `grant:${playerId}`, account: playerAccount(playerId), amount: user.coins, kind: 'grant' }
+        ], { session, ordered: true });
+    }
+
+    private static async transfer(session: ClientSession, transferId: string, from: string, to: string, amount: number, kind: string, matchId?: string) {
+        await Ledger.create([
+            { transferId, account: from, amount: -amount, kind, matchId },
+            { transferId, account: to, amount, kind, matchId }
+        ], { session, ordered: true });
+
+        // Player balances are cached on the user, and may never go below zero
+        if (from.startsWith('player:')) {
+            const debit = await User.updateOne({ playerId: from.slice('player:'.length), coins: { $gte: amount } }, { $inc: { coins: -amount } }, { session });
+            if (debit.modifiedCount !== 1) throw new GameError('INSUFFICIENT_COINS', `You need ${amount} coins to play at this table`);
+        }
+        if (to.startsWith('player:')) {
+            await User.updateOne({ playerId: to.slice('player:'.length) }, { $inc: { coins: amount } }, { session });
+        }
+    }
+
+    // What each player still has staked in the match goes back to them
+    private static async refundStakes(session: ClientSession, matchId: string) {
+        const staked: { _id: string, amount: number }[] = await Ledger.aggregate([
+            { $match: { matchId, account: /^player:/, kind: { $in: ['stake', 'refund'] } } },
+            { $group: { _id: '$account', amount: { $sum: '$amount' } } }
+        ]).session(session);
+
+        for (const { _id: account, amount } of staked) {
+            if (amount >= 0) continue;
+            await this.transfer(session, `refund:${matchId}:${account.slice('player:'.length)}`, potAccount(matchId), account, -amount, 'refund', matchId);
+        }
+    }
+
+    private static async balance(account: string, session: ClientSession): Promise<number> {
+        const [row] = await Ledger.aggregate([
+            { $match: { account } },
+            { $group: { _id: null, balance: { $sum: '$amount' } } }
+        ]).session(session);
+        return row?.balance ?? 0;
+    }
+}